@@ -1,7 +1,9 @@
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using ReincrewBackend.Models;
+using ReincrewBackend.Services;
 using System.Collections.Generic;
+using System.Linq;
 using System.Threading.Tasks;
 
 namespace ReincrewBackend.Controllers
@@ -11,10 +13,14 @@ namespace ReincrewBackend.Controllers
     public class AnalyticsController : ControllerBase
     {
         private readonly Data.AppDbContext _context;
+        private readonly ClipStore _clipStore;
+        private readonly EvaluationService _evaluationService;
 
-        public AnalyticsController(Data.AppDbContext context)
+        public AnalyticsController(Data.AppDbContext context, ClipStore clipStore, EvaluationService evaluationService)
         {
             _context = context;
+            _clipStore = clipStore;
+            _evaluationService = evaluationService;
         }
 
         [HttpGet("sessions")]
@@ -31,10 +37,78 @@ namespace ReincrewBackend.Controllers
         [HttpPost("sessions")]
         public async Task<ActionResult<InterviewSession>> SaveSession([FromBody] InterviewSession session)
         {
+            if (session.Status != "COMPLETED" && session.Status != "TERMINATED")
+                return BadRequest("Only finished sessions can be saved.");
+            if (EvidenceFrame.AnyOversized(session.Warnings))
+                return BadRequest("Warning evidence is too large.");
+            if (session.Id > 0)
+                return await FinalizeSession(session);
+
+            var candidate = await _context.Candidates.FindAsync(session.Candidate.Id);
+            if (candidate == null)
+                return BadRequest("Candidate not found.");
+
             // The database will generate the ID automatically
+            session.Candidate = candidate;
+            session.CandidateId = candidate.Id;
+            session.Review = null;
+            // Browser-only sessions were never recorded, and every answer in them was graded offline
+            session.Results.ForEach(r => r.ClipIds = new());
+            // Graded against the version the session names, or the role's latest when it names none
+            var version = session.JobPostId == null ? null
+                : await _context.JobPostVersions.AsNoTracking()
+                    .Where(v => v.JobPostId == session.JobPostId && (session.JobVersion == null || v.Version == session.JobVersion))
+                    .OrderByDescending(v => v.Version)
+                    .FirstOrDefaultAsync();
+            // Without the questions there is nothing to check offline scores against
+            if (version == null && session.Results.Count > 0)
+                return BadRequest("Interview role not found; the answers can't be graded.");
+            var job = version == null ? null : new JobSnapshot
+            {
+                Questions = version.Questions.Select(q => q.Localize(version.Settings.Language ?? InterviewLanguages.Default)).ToList(),
+                Settings = version.Settings,
+                EvaluationProvider = version.EvaluationProvider
+            };
+            session.JobVersion = version?.Version;
+            session.Results = await _evaluationService.AcceptOfflineAsync(session.Results, new List<EvaluationResult>(), job, HttpContext.RequestAborted);
+            session.OverallScore = SessionScoring.OverallScore(session.Results, session.Warnings, job);
+            if (session.Status == "TERMINATED")
+                session.LockOutCandidate();
             _context.InterviewSessions.Add(session);
             await _context.SaveChangesAsync();
             return CreatedAtAction(nameof(GetSessions), new { id = session.Id }, session);
         }
+
+        // Completes a session opened by POST api/interview/sessions instead of saving a duplicate
+        private async Task<ActionResult<InterviewSession>> FinalizeSession(InterviewSession update)
+        {
+            var session = await _context.InterviewSessions
+                .Include(s => s.Candidate)
+                .Include(s => s.Results)
+                .Include(s => s.Warnings)
+                .FirstOrDefaultAsync(s => s.Id == update.Id);
+            if (session == null)
+                return NotFound("Interview session not found.");
+            if (session.Status != "IN_PROGRESS")
+                return Conflict("Interview session is already finished.");
+
+            session.Status = update.Status;
+            session.DurationSeconds = update.DurationSeconds;
+            session.Identity = update.Identity ?? session.Identity;
+            // Checkpoints already stored the start of the log
+            session.Warnings.AddRange(update.Warnings.Skip(session.Warnings.Count));
+            // Normally already done by POST api/interview/{id}/terminate
+            if (session.Status == "TERMINATED" && session.Review == null)
+                session.LockOutCandidate();
+
+            // Server-graded answers are already stored; only answers graded offline in the browser are new
+            var offline = await _evaluationService.AcceptOfflineAsync(update.Results, session.Results, session.JobSnapshot, HttpContext.RequestAborted);
+            await _clipStore.LinkAsync(session.Id, offline);
+            session.Results.AddRange(offline);
+            session.OverallScore = SessionScoring.OverallScore(session.Results, session.Warnings, session.JobSnapshot);
+
+            await _context.SaveChangesAsync();
+            return Ok(session);
+        }
     }
 }
@@ -24,16 +24,36 @@ namespace ReincrewBackend.Controllers
             if (await _context.Candidates.AnyAsync(c => c.Email == dto.Email))
                 return BadRequest("Email already registered.");
 
+            // An invite code binds the candidate to its job and overrides any job picked in the form.
+            // The redemption is rolled back if the registration fails.
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+            InviteCode? invite = null;
+            if (!string.IsNullOrWhiteSpace(dto.InviteCode))
+            {
+                var (redeemed, error) = await RedeemInviteAsync(dto.InviteCode, dto.Email);
+                if (error != null)
+                    return BadRequest(error);
+                invite = redeemed;
+            }
+
+            var jobPostId = invite?.JobPostId ?? dto.JobPostId;
+            var job = jobPostId == null ? null : await _context.JobPosts.FirstOrDefaultAsync(j => j.Id == jobPostId);
+            if (jobPostId != null && (job == null || job.Status != "ACTIVE"))
+                return BadRequest("Selected job is not open for applications.");
+
             var candidate = new Candidate
             {
                 Name = dto.Name,
                 Email = dto.Email,
                 PasswordHash = HashPassword(dto.Password),
-                Position = dto.Position
+                Position = job?.Title ?? dto.Position,
+                JobPostId = job?.Id,
+                AccessId = invite?.Code
             };
 
             _context.Candidates.Add(candidate);
             await _context.SaveChangesAsync();
+            await transaction.CommitAsync();
             return Ok(new { message = "Registration successful" });
         }
 
@@ -46,7 +66,22 @@ namespace ReincrewBackend.Controllers
                 if (candidate == null || !VerifyPassword(dto.Password, candidate.PasswordHash))
                     return Unauthorized("Invalid credentials.");
 
-                return Ok(new { token = "dummy-candidate-token", candidateId = candidate.Id, name = candidate.Name });
+                // Existing accounts can take up a new invite at login
+                if (!string.IsNullOrWhiteSpace(dto.InviteCode))
+                {
+                    await using var transaction = await _context.Database.BeginTransactionAsync();
+                    var (invite, error) = await RedeemInviteAsync(dto.InviteCode, candidate.Email);
+                    if (error != null)
+                        return BadRequest(error);
+                    var job = await _context.JobPosts.FirstAsync(j => j.Id == invite!.JobPostId);
+                    candidate.JobPostId = job.Id;
+                    candidate.Position = job.Title;
+                    candidate.AccessId = invite!.Code;
+                    await _context.SaveChangesAsync();
+                    await transaction.CommitAsync();
+                }
+
+                return Ok(new { token = "dummy-candidate-token", candidateId = candidate.Id, name = candidate.Name, position = candidate.Position, jobPostId = candidate.JobPostId, accessId = candidate.AccessId, lockedOutAt = candidate.LockedOutAt });
             }
             catch (Exception ex)
             {
@@ -83,6 +118,29 @@ namespace ReincrewBackend.Controllers
             return Ok(new { token = "dummy-admin-token", name = admin.Username });
         }
 
+        // Checks the code against the redeeming email and uses up one redemption inside the caller's transaction
+        private async Task<(InviteCode? Invite, string? Error)> RedeemInviteAsync(string code, string email)
+        {
+            var invite = await _context.InviteCodes.FirstOrDefaultAsync(i => i.Code == InvitesController.NormalizeCode(code));
+            if (invite == null || invite.Status != "ACTIVE")
+                return (null, "Invite code is invalid or has expired.");
+            if (invite.Email != null && !string.Equals(invite.Email, email.Trim(), StringComparison.OrdinalIgnoreCase))
+                return (null, "This invite was issued to a different email address.");
+            if (!await _context.JobPosts.AnyAsync(j => j.Id == invite.JobPostId && j.Status == "ACTIVE"))
+                return (null, "The role for this invite is no longer open.");
+
+            // Claimed in the database so two sign-ups can't both take the last use of a code
+            var now = DateTime.UtcNow;
+            var claimed = await _context.InviteCodes
+                .Where(i => i.Id == invite.Id && i.RevokedAt == null && i.UseCount < i.MaxUses)
+                .ExecuteUpdateAsync(s => s
+                    .SetProperty(i => i.UseCount, i => i.UseCount + 1)
+                    .SetProperty(i => i.LastRedeemedAt, now));
+            if (claimed == 0)
+                return (null, "Invite code is invalid or has expired.");
+            return (invite, null);
+        }
+
         private string HashPassword(string password)
         {
             using var sha256 = SHA256.Create();
@@ -102,6 +160,8 @@ namespace ReincrewBackend.Controllers
         public string Email { get; set; } = string.Empty;
         public string Password { get; set; } = string.Empty;
         public string? Position { get; set; }
+        public string? JobPostId { get; set; }
+        public string? InviteCode { get; set; }
     }
 
     public class AdminRegistrationDto
@@ -115,5 +175,6 @@ namespace ReincrewBackend.Controllers
     {
         public string Email { get; set; } = string.Empty;
         public string Password { get; set; } = string.Empty;
+        public string? InviteCode { get; set; }
     }
 }
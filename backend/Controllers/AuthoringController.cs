@@ -0,0 +1,83 @@
+using Microsoft.AspNetCore.Mvc;
+using ReincrewBackend.Models;
+using ReincrewBackend.Services;
+
+namespace ReincrewBackend.Controllers
+{
+    [ApiController]
+    [Route("api/[controller]")]
+    public class AuthoringController : ControllerBase
+    {
+        private const int MaxQuestionLength = 1000;
+        private const int MaxDescriptionLength = 8000;
+
+        private readonly AuthoringService _authoringService;
+        private readonly EvaluationProviderFactory _providers;
+        private readonly ILogger<AuthoringController> _logger;
+
+        public AuthoringController(AuthoringService authoringService, EvaluationProviderFactory providers, ILogger<AuthoringController> logger)
+        {
+            _authoringService = authoringService;
+            _providers = providers;
+            _logger = logger;
+        }
+
+        [HttpPost("draft-answer")]
+        public async Task<ActionResult<Question>> DraftAnswer([FromBody] DraftAnswerDto dto)
+        {
+            if (string.IsNullOrWhiteSpace(dto.Text) || dto.Text.Length > MaxQuestionLength)
+                return BadRequest("Question text is empty or too long.");
+            if (!_providers.IsAllowed(dto.EvaluationProvider))
+                return BadRequest("Evaluation provider or model is not offered by this server.");
+
+            try
+            {
+                return Ok(await _authoringService.DraftAnswerAsync(dto.Text.Trim(), dto.Topic, dto.Difficulty, dto.JobTitle, dto.EvaluationProvider, HttpContext.RequestAborted));
+            }
+            catch (EvaluationException ex)
+            {
+                _logger.LogError(ex, "Answer drafting failed");
+                return StatusCode(502, new { error = ex.Message });
+            }
+        }
+
+        [HttpPost("question-set")]
+        public async Task<ActionResult<List<Question>>> GenerateQuestionSet([FromBody] QuestionSetDto dto)
+        {
+            if (string.IsNullOrWhiteSpace(dto.Description) || dto.Description.Length > MaxDescriptionLength)
+                return BadRequest("Job description is empty or too long.");
+            if (dto.Count < 1 || dto.Count > AuthoringService.MaxQuestionSetSize)
+                return BadRequest($"Count must be between 1 and {AuthoringService.MaxQuestionSetSize}.");
+            if (!_providers.IsAllowed(dto.EvaluationProvider))
+                return BadRequest("Evaluation provider or model is not offered by this server.");
+
+            try
+            {
+                return Ok(await _authoringService.GenerateQuestionSetAsync(dto.JobTitle, dto.Description, dto.Count, dto.Difficulty, dto.EvaluationProvider, HttpContext.RequestAborted));
+            }
+            catch (EvaluationException ex)
+            {
+                _logger.LogError(ex, "Question set generation failed");
+                return StatusCode(502, new { error = ex.Message });
+            }
+        }
+    }
+
+    public class DraftAnswerDto
+    {
+        public string Text { get; set; } = string.Empty;
+        public string? Topic { get; set; }
+        public string? Difficulty { get; set; }
+        public string? JobTitle { get; set; }
+        public EvaluationProviderConfig? EvaluationProvider { get; set; }
+    }
+
+    public class QuestionSetDto
+    {
+        public string JobTitle { get; set; } = string.Empty;
+        public string Description { get; set; } = string.Empty;
+        public int Count { get; set; } = 5;
+        public string? Difficulty { get; set; }
+        public EvaluationProviderConfig? EvaluationProvider { get; set; }
+    }
+}
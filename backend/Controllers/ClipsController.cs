@@ -0,0 +1,122 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using ReincrewBackend.Data;
+using ReincrewBackend.Models;
+using ReincrewBackend.Services;
+
+namespace ReincrewBackend.Controllers
+{
+    // Answer recordings. The client opens a clip when the candidate starts answering, PUTs the
+    // recorder's chunks in order as they arrive, and completes it when the answer ends.
+    [ApiController]
+    [Route("api/[controller]")]
+    public class ClipsController : ControllerBase
+    {
+        private const int MaxChunkBytes = 8 * 1024 * 1024; // Clients send 5s chunks, ~400 KB each
+        private const long MaxClipBytes = 300L * 1024 * 1024;
+        private static readonly string[] AllowedTypes = { "video/webm", "video/mp4" };
+
+        private readonly AppDbContext _context;
+        private readonly ClipStore _clipStore;
+
+        public ClipsController(AppDbContext context, ClipStore clipStore)
+        {
+            _context = context;
+            _clipStore = clipStore;
+        }
+
+        [HttpPost]
+        public async Task<IActionResult> StartClip([FromBody] StartClipDto dto)
+        {
+            var session = await _context.InterviewSessions.FirstOrDefaultAsync(s => s.Id == dto.SessionId);
+            if (session == null || session.JobSnapshot == null)
+                return NotFound("Interview session not found.");
+            if (session.Status != "IN_PROGRESS" || session.Review != null)
+                return Conflict("Interview session is no longer accepting answers.");
+            var policy = session.JobSnapshot.Settings?.Recording;
+            if (policy == null || !policy.Enabled)
+                return BadRequest("This interview is not recorded.");
+            if (session.JobSnapshot.Questions.All(q => q.Id != dto.QuestionId))
+                return BadRequest("Question is not part of this interview.");
+            if (dto.MimeType.Length > 100 || !AllowedTypes.Any(t => dto.MimeType.StartsWith(t)))
+                return BadRequest("Recording format is not supported.");
+
+            var clip = await _clipStore.CreateAsync(session, dto.QuestionId, dto.MimeType, policy);
+            return Ok(new { clipId = clip.Id });
+        }
+
+        [HttpPut("{clipId:int}/chunks/{index:int}")]
+        [RequestSizeLimit(MaxChunkBytes)]
+        public async Task<IActionResult> UploadChunk(int clipId, int index)
+        {
+            var clip = await _context.AnswerClips.FirstOrDefaultAsync(c => c.Id == clipId);
+            if (clip == null)
+                return NotFound("Clip not found.");
+            if (!await IsInProgressAsync(clip.InterviewSessionId))
+                return Conflict("Interview session is no longer accepting answers.");
+            if (clip.CompletedAt != null)
+                return Conflict("Clip is already complete.");
+            // A retried chunk that already arrived is acknowledged without writing it twice
+            if (index < clip.ChunkCount)
+                return NoContent();
+            if (index > clip.ChunkCount)
+                return Conflict($"Expected chunk {clip.ChunkCount}.");
+            if (!await _clipStore.AppendAsync(clip, Request.Body, MaxClipBytes, HttpContext.RequestAborted))
+                return BadRequest("Clip is too large.");
+            return NoContent();
+        }
+
+        [HttpPost("{clipId:int}/complete")]
+        public async Task<IActionResult> CompleteClip(int clipId, [FromBody] CompleteClipDto dto)
+        {
+            var clip = await _context.AnswerClips.FirstOrDefaultAsync(c => c.Id == clipId);
+            if (clip == null)
+                return NotFound("Clip not found.");
+            if (!await IsInProgressAsync(clip.InterviewSessionId))
+                return Conflict("Interview session is no longer accepting answers.");
+            if (dto.ChunkCount != clip.ChunkCount)
+                return Conflict($"Received {clip.ChunkCount} of {dto.ChunkCount} chunks.");
+
+            clip.CompletedAt ??= DateTime.UtcNow;
+            clip.DurationSeconds = Math.Max(0, dto.DurationSeconds);
+            await _context.SaveChangesAsync();
+            return NoContent();
+        }
+
+        [HttpGet]
+        public async Task<ActionResult<IEnumerable<AnswerClip>>> GetClips([FromQuery] int sessionId)
+        {
+            return Ok(await _context.AnswerClips.AsNoTracking()
+                .Where(c => c.InterviewSessionId == sessionId)
+                .OrderBy(c => c.StartedAt)
+                .ToListAsync());
+        }
+
+        [HttpGet("{clipId:int}/media")]
+        public async Task<IActionResult> GetMedia(int clipId)
+        {
+            var clip = await _context.AnswerClips.AsNoTracking().FirstOrDefaultAsync(c => c.Id == clipId);
+            if (clip == null || !System.IO.File.Exists(_clipStore.PathOf(clip)))
+                return NotFound("Clip not found or expired.");
+            // Range requests let the player seek without downloading the whole answer
+            return PhysicalFile(_clipStore.PathOf(clip), clip.MimeType.Split(';')[0], enableRangeProcessing: true);
+        }
+
+        // Clips are review evidence, so a finished session's recordings can't be added to afterwards
+        private Task<bool> IsInProgressAsync(int sessionId) =>
+            _context.InterviewSessions.AnyAsync(s => s.Id == sessionId && s.Status == "IN_PROGRESS" && s.Review == null);
+    }
+
+    public class StartClipDto
+    {
+        public int SessionId { get; set; }
+        public int QuestionId { get; set; }
+        public string MimeType { get; set; } = string.Empty;
+    }
+
+    public class CompleteClipDto
+    {
+        public int ChunkCount { get; set; }
+        public double DurationSeconds { get; set; }
+    }
+}
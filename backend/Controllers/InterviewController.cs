@@ -0,0 +1,286 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using ReincrewBackend.Data;
+using ReincrewBackend.Models;
+using ReincrewBackend.Services;
+
+namespace ReincrewBackend.Controllers
+{
+    [ApiController]
+    [Route("api/[controller]")]
+    public class InterviewController : ControllerBase
+    {
+        private const int MaxTranscriptLength = 10000;
+        private const int MaxTimelineSamples = 1000; // Clients downsample to 300
+
+        private readonly AppDbContext _context;
+        private readonly EvaluationService _evaluationService;
+        private readonly ClipStore _clipStore;
+        private readonly EvaluationProviderFactory _providers;
+        private readonly ILogger<InterviewController> _logger;
+
+        public InterviewController(AppDbContext context, EvaluationService evaluationService, ClipStore clipStore, EvaluationProviderFactory providers, ILogger<InterviewController> logger)
+        {
+            _context = context;
+            _evaluationService = evaluationService;
+            _clipStore = clipStore;
+            _providers = providers;
+            _logger = logger;
+        }
+
+        [HttpPost("sessions")]
+        public async Task<IActionResult> StartSession([FromBody] StartSessionDto dto)
+        {
+            var candidate = await _context.Candidates.FindAsync(dto.CandidateId);
+            if (candidate == null)
+                return NotFound("Candidate not found.");
+            if (candidate.LockedOutAt != null)
+                return LockedOut();
+
+            // A stored job is authoritative; client-supplied questions only cover interviews without one
+            var job = dto.JobPostId == null ? null : await _context.JobPosts.AsNoTracking().FirstOrDefaultAsync(j => j.Id == dto.JobPostId);
+            if (job == null && !_providers.IsAllowed(dto.EvaluationProvider))
+                return BadRequest("Evaluation provider or model is not offered by this server.");
+            var snapshot = job != null
+                ? new JobSnapshot { Questions = job.Questions, Settings = job.Settings, EvaluationProvider = job.EvaluationProvider }
+                : new JobSnapshot { Questions = dto.Questions, Settings = dto.Settings, EvaluationProvider = dto.EvaluationProvider };
+            // Graded in the words the candidate was asked, as the client localizes its copy
+            var language = snapshot.Settings?.Language ?? InterviewLanguages.Default;
+            snapshot.Questions = snapshot.Questions.Select(q => q.Localize(language)).ToList();
+            if (snapshot.Questions.Count == 0)
+                return BadRequest("An interview needs at least one question.");
+
+            // Starting over abandons any interview the candidate left unfinished
+            var abandoned = await _context.InterviewSessions
+                .Where(s => s.CandidateId == candidate.Id && s.Status == "IN_PROGRESS")
+                .ToListAsync();
+            abandoned.ForEach(s => s.Status = "TERMINATED");
+
+            var session = new InterviewSession
+            {
+                CandidateId = candidate.Id,
+                Candidate = candidate,
+                Date = DateTime.UtcNow,
+                Status = "IN_PROGRESS",
+                JobPostId = job?.Id,
+                JobVersion = job?.Version,
+                JobSnapshot = snapshot
+            };
+
+            _context.InterviewSessions.Add(session);
+            await _context.SaveChangesAsync();
+            return Ok(new { sessionId = session.Id });
+        }
+
+        [HttpGet("sessions/resumable")]
+        public async Task<ActionResult<InterviewSession>> GetResumableSession([FromQuery] int candidateId)
+        {
+            // Refused outright, so the client doesn't go looking for a checkpoint of its own
+            var candidate = await _context.Candidates.FindAsync(candidateId);
+            if (candidate?.LockedOutAt != null)
+                return LockedOut();
+
+            var session = await _context.InterviewSessions
+                .Include(s => s.Candidate)
+                .Include(s => s.Results)
+                .Include(s => s.Warnings)
+                .Where(s => s.CandidateId == candidateId && s.Status == "IN_PROGRESS")
+                .OrderByDescending(s => s.Date)
+                .FirstOrDefaultAsync();
+            if (session == null || !CanResume(session))
+                return NoContent();
+            return Ok(session);
+        }
+
+        [HttpPut("{sessionId:int}/checkpoint")]
+        public async Task<IActionResult> SaveCheckpoint(int sessionId, [FromBody] CheckpointDto dto)
+        {
+            var session = await _context.InterviewSessions
+                .Include(s => s.Candidate)
+                .Include(s => s.Results)
+                .Include(s => s.Warnings)
+                .FirstOrDefaultAsync(s => s.Id == sessionId);
+            if (session == null || session.JobSnapshot == null)
+                return NotFound("Interview session not found.");
+            if (session.Candidate.LockedOutAt != null)
+                return LockedOut();
+            if (session.Status != "IN_PROGRESS" || session.Review != null)
+                return Conflict("Interview session is no longer accepting answers.");
+            if (dto.CurrentQuestionId != null && session.JobSnapshot.Questions.All(q => q.Id != dto.CurrentQuestionId))
+                return BadRequest("Question is not part of this interview.");
+            if (EvidenceFrame.AnyOversized(dto.Warnings))
+                return BadRequest("Warning evidence is too large.");
+
+            // Server-graded answers are already stored; offline-graded ones only reach us here
+            var offline = await _evaluationService.AcceptOfflineAsync(dto.Results, session.Results, session.JobSnapshot, HttpContext.RequestAborted);
+            await _clipStore.LinkAsync(session.Id, offline);
+            session.Results.AddRange(offline);
+            // The warning log only grows, so anything past what we hold is new
+            session.Warnings.AddRange(dto.Warnings.Skip(session.Warnings.Count));
+
+            session.Identity = dto.Identity ?? session.Identity;
+            session.CurrentQuestionId = dto.CurrentQuestionId;
+            session.LastCheckpointAt = DateTime.UtcNow;
+            await _context.SaveChangesAsync();
+            return NoContent();
+        }
+
+        // Called the moment proctoring ends an interview, before the results are saved, so closing
+        // the tab afterwards can't dodge the lockout
+        [HttpPost("{sessionId:int}/terminate")]
+        public async Task<IActionResult> TerminateSession(int sessionId)
+        {
+            var session = await _context.InterviewSessions
+                .Include(s => s.Candidate)
+                .FirstOrDefaultAsync(s => s.Id == sessionId);
+            if (session == null)
+                return NotFound("Interview session not found.");
+            if (session.Status != "IN_PROGRESS")
+                return Conflict("Interview session is already finished.");
+
+            session.LockOutCandidate();
+            await _context.SaveChangesAsync();
+            return NoContent();
+        }
+
+        [HttpPost("{sessionId:int}/answers")]
+        public async Task<ActionResult<EvaluationResult>> SubmitAnswer(int sessionId, [FromBody] SubmitAnswerDto dto)
+        {
+            var session = await _context.InterviewSessions
+                .Include(s => s.Candidate)
+                .FirstOrDefaultAsync(s => s.Id == sessionId);
+            if (session == null || session.JobSnapshot == null)
+                return NotFound("Interview session not found.");
+            if (session.Candidate.LockedOutAt != null)
+                return LockedOut();
+            if (session.Status != "IN_PROGRESS" || session.Review != null)
+                return Conflict("Interview session is no longer accepting answers.");
+            if (string.IsNullOrWhiteSpace(dto.Transcript) || dto.Transcript.Length > MaxTranscriptLength)
+                return BadRequest("Transcript is empty or too long.");
+
+            var question = session.JobSnapshot.Questions.FirstOrDefault(q => q.Id == dto.QuestionId);
+            if (question == null)
+                return BadRequest("Question is not part of this interview.");
+            if (dto.FollowUps.Count > question.MaxFollowUps)
+                return BadRequest("Too many follow-up answers for this question.");
+            if (dto.FollowUps.Any(f => string.IsNullOrWhiteSpace(f.Answer) || f.Answer.Length > MaxTranscriptLength))
+                return BadRequest("Follow-up answer is empty or too long.");
+            if (dto.SuspicionTimeline?.Samples.Count > MaxTimelineSamples)
+                return BadRequest("Suspicion timeline has too many samples.");
+            if (dto.InputMode != "spoken" && dto.InputMode != "typed")
+                return BadRequest("Input mode must be spoken or typed.");
+
+            try
+            {
+                var result = await _evaluationService.EvaluateAsync(question, dto.Transcript, dto.FollowUps, dto.InputMode, dto.VisualMetrics, session.JobSnapshot, HttpContext.RequestAborted);
+                result.InterviewSessionId = session.Id;
+                result.SuspicionTimeline = dto.SuspicionTimeline;
+                await _clipStore.LinkAsync(session.Id, new[] { result });
+
+                // A follow-up re-grades the whole exchange, so it replaces the earlier result for this question
+                var previous = await _context.EvaluationResults
+                    .Where(r => r.InterviewSessionId == session.Id && r.QuestionId == question.Id)
+                    .ToListAsync();
+                _context.EvaluationResults.RemoveRange(previous);
+
+                _context.EvaluationResults.Add(result);
+                await _context.SaveChangesAsync();
+                return Ok(result);
+            }
+            catch (EvaluationException ex)
+            {
+                // The client falls back to its offline rubric scorer on any non-success response
+                _logger.LogError(ex, "Evaluation failed for session {SessionId}", sessionId);
+                return StatusCode(502, new { error = ex.Message });
+            }
+        }
+
+        [HttpPost("{sessionId:int}/follow-ups")]
+        public async Task<IActionResult> GenerateFollowUp(int sessionId, [FromBody] FollowUpRequestDto dto)
+        {
+            var session = await _context.InterviewSessions
+                .Include(s => s.Candidate)
+                .FirstOrDefaultAsync(s => s.Id == sessionId);
+            if (session == null || session.JobSnapshot == null)
+                return NotFound("Interview session not found.");
+            if (session.Candidate.LockedOutAt != null)
+                return LockedOut();
+            if (session.Status != "IN_PROGRESS" || session.Review != null)
+                return Conflict("Interview session is no longer accepting answers.");
+            if (string.IsNullOrWhiteSpace(dto.Transcript) || dto.Transcript.Length > MaxTranscriptLength)
+                return BadRequest("Transcript is empty or too long.");
+
+            var question = session.JobSnapshot.Questions.FirstOrDefault(q => q.Id == dto.QuestionId);
+            if (question == null)
+                return BadRequest("Question is not part of this interview.");
+            if (dto.FollowUps.Count >= question.MaxFollowUps)
+                return BadRequest("No follow-ups remaining for this question.");
+
+            // Only probe for points that actually belong to the question
+            var missing = question.KeyPoints
+                .Where(k => dto.MissingKeyPoints.Any(m => string.Equals(m.Trim(), k.Trim(), StringComparison.OrdinalIgnoreCase)))
+                .ToList();
+            if (missing.Count == 0)
+                return BadRequest("No missing key points to follow up on.");
+
+            try
+            {
+                var followUp = await _evaluationService.GenerateFollowUpAsync(question, dto.Transcript, dto.FollowUps, missing, session.JobSnapshot, HttpContext.RequestAborted);
+                return Ok(new { question = followUp });
+            }
+            catch (EvaluationException ex)
+            {
+                _logger.LogError(ex, "Follow-up generation failed for session {SessionId}", sessionId);
+                return StatusCode(502, new { error = ex.Message });
+            }
+        }
+
+        // A locked-out candidate can't start, resume or carry on any interview until an admin lifts the lock
+        private ObjectResult LockedOut() =>
+            StatusCode(403, "Interview access is locked pending review of your last session.");
+
+        private static bool CanResume(InterviewSession session)
+        {
+            var policy = session.JobSnapshot?.Settings?.Resume ?? new ResumePolicy();
+            if (!policy.Enabled)
+                return false;
+            var lastActivity = session.LastCheckpointAt ?? session.Date;
+            return policy.ExpiresAfterMinutes <= 0 || DateTime.UtcNow - lastActivity <= TimeSpan.FromMinutes(policy.ExpiresAfterMinutes);
+        }
+    }
+
+    public class CheckpointDto
+    {
+        public int? CurrentQuestionId { get; set; }
+        public List<EvaluationResult> Results { get; set; } = new();
+        public List<WarningEvent> Warnings { get; set; } = new();
+        public IdentitySummary? Identity { get; set; }
+    }
+
+    public class StartSessionDto
+    {
+        public int CandidateId { get; set; }
+        public string? JobPostId { get; set; }
+        public List<Question> Questions { get; set; } = new();
+        public RoleSettings? Settings { get; set; }
+        public EvaluationProviderConfig? EvaluationProvider { get; set; }
+    }
+
+    public class SubmitAnswerDto
+    {
+        public int QuestionId { get; set; }
+        public string Transcript { get; set; } = string.Empty;
+        public List<FollowUpTurn> FollowUps { get; set; } = new();
+        public string InputMode { get; set; } = "spoken";
+        public VisualMetrics? VisualMetrics { get; set; }
+        public SuspicionTimeline? SuspicionTimeline { get; set; }
+    }
+
+    public class FollowUpRequestDto
+    {
+        public int QuestionId { get; set; }
+        public string Transcript { get; set; } = string.Empty;
+        public List<FollowUpTurn> FollowUps { get; set; } = new();
+        public List<string> MissingKeyPoints { get; set; } = new();
+    }
+}
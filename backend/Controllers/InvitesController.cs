@@ -0,0 +1,119 @@
+using System.Security.Cryptography;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using ReincrewBackend.Data;
+using ReincrewBackend.Models;
+
+namespace ReincrewBackend.Controllers
+{
+    [ApiController]
+    [Route("api/[controller]")]
+    public class InvitesController : ControllerBase
+    {
+        private const int MaxBatchSize = 500;
+        private const int MaxUsesLimit = 1000;
+        // No 0/O or 1/I so codes survive being read out or retyped
+        private const string CodeAlphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+        private readonly AppDbContext _context;
+
+        public InvitesController(AppDbContext context)
+        {
+            _context = context;
+        }
+
+        [HttpGet]
+        public async Task<ActionResult<IEnumerable<InviteCode>>> GetInvites([FromQuery] string jobPostId)
+        {
+            var invites = await _context.InviteCodes.AsNoTracking()
+                .Where(i => i.JobPostId == jobPostId)
+                .OrderByDescending(i => i.CreatedAt)
+                .ToListAsync();
+            return Ok(invites);
+        }
+
+        [HttpPost]
+        public async Task<ActionResult<IEnumerable<InviteCode>>> CreateInvites([FromBody] CreateInvitesDto dto)
+        {
+            var job = await _context.JobPosts.AsNoTracking().FirstOrDefaultAsync(j => j.Id == dto.JobPostId);
+            if (job == null)
+                return NotFound("Job not found.");
+
+            var emails = dto.Emails
+                .Select(e => e.Trim().ToLowerInvariant())
+                .Where(e => e.Length > 0)
+                .Distinct()
+                .ToList();
+            var count = emails.Count > 0 ? emails.Count : dto.Count;
+            if (count < 1 || count > MaxBatchSize)
+                return BadRequest($"Generate between 1 and {MaxBatchSize} invites at a time.");
+            if (emails.Any(e => !e.Contains('@')))
+                return BadRequest("Every email needs an @.");
+            if (dto.MaxUses < 1 || dto.MaxUses > MaxUsesLimit)
+                return BadRequest($"Uses per code must be between 1 and {MaxUsesLimit}.");
+            if (dto.ExpiresInHours is < 0)
+                return BadRequest("Expiry cannot be negative.");
+
+            var now = DateTime.UtcNow;
+            var invites = Enumerable.Range(0, count).Select(i => new InviteCode
+            {
+                Code = GenerateCode(),
+                JobPostId = job.Id,
+                Email = emails.Count > 0 ? emails[i] : null,
+                MaxUses = dto.MaxUses,
+                ExpiresAt = dto.ExpiresInHours > 0 ? now.AddHours(dto.ExpiresInHours.Value) : null,
+                CreatedAt = now
+            }).ToList();
+
+            _context.InviteCodes.AddRange(invites);
+            await _context.SaveChangesAsync();
+            return Ok(invites);
+        }
+
+        // Lets the sign-up form show which role a code is for without using it up
+        [HttpGet("lookup/{code}")]
+        public async Task<IActionResult> LookupInvite(string code)
+        {
+            var invite = await _context.InviteCodes.AsNoTracking().FirstOrDefaultAsync(i => i.Code == NormalizeCode(code));
+            if (invite == null || invite.Status != "ACTIVE")
+                return NotFound("Invite code is invalid or has expired.");
+
+            var job = await _context.JobPosts.AsNoTracking().FirstOrDefaultAsync(j => j.Id == invite.JobPostId);
+            if (job == null || job.Status != "ACTIVE")
+                return NotFound("The role for this invite is no longer open.");
+
+            return Ok(new { code = invite.Code, jobPostId = job.Id, jobTitle = job.Title, email = invite.Email });
+        }
+
+        [HttpDelete("{id:int}")]
+        public async Task<IActionResult> RevokeInvite(int id)
+        {
+            var invite = await _context.InviteCodes.FindAsync(id);
+            if (invite == null)
+                return NotFound("Invite not found.");
+
+            invite.RevokedAt ??= DateTime.UtcNow;
+            await _context.SaveChangesAsync();
+            return NoContent();
+        }
+
+        internal static string NormalizeCode(string code) => code.Trim().ToUpperInvariant();
+
+        private static string GenerateCode()
+        {
+            var chars = new char[9];
+            for (var i = 0; i < chars.Length; i++)
+                chars[i] = i == 4 ? '-' : CodeAlphabet[RandomNumberGenerator.GetInt32(CodeAlphabet.Length)];
+            return new string(chars);
+        }
+    }
+
+    public class CreateInvitesDto
+    {
+        public string JobPostId { get; set; } = string.Empty;
+        public int Count { get; set; } = 1; // Ignored when Emails are given: one code per email
+        public List<string> Emails { get; set; } = new();
+        public int MaxUses { get; set; } = 1;
+        public int? ExpiresInHours { get; set; } // null or 0 = never
+    }
+}
@@ -0,0 +1,163 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using ReincrewBackend.Data;
+using ReincrewBackend.Models;
+using ReincrewBackend.Services;
+
+namespace ReincrewBackend.Controllers
+{
+    [ApiController]
+    [Route("api/[controller]")]
+    public class JobsController : ControllerBase
+    {
+        private static readonly string[] Statuses = { "ACTIVE", "INACTIVE" };
+
+        private readonly AppDbContext _context;
+        private readonly EvaluationProviderFactory _providers;
+
+        public JobsController(AppDbContext context, EvaluationProviderFactory providers)
+        {
+            _context = context;
+            _providers = providers;
+        }
+
+        [HttpGet]
+        public async Task<ActionResult<IEnumerable<JobPost>>> GetJobs([FromQuery] string? status)
+        {
+            var query = _context.JobPosts.AsNoTracking();
+            if (!string.IsNullOrEmpty(status))
+                query = query.Where(j => j.Status == status);
+            return Ok(await query.OrderBy(j => j.CreatedAt).ToListAsync());
+        }
+
+        [HttpGet("{id}")]
+        public async Task<ActionResult<JobPost>> GetJob(string id)
+        {
+            var job = await _context.JobPosts.AsNoTracking().FirstOrDefaultAsync(j => j.Id == id);
+            if (job == null)
+                return NotFound("Job not found.");
+            return Ok(job);
+        }
+
+        [HttpPost]
+        public async Task<ActionResult<JobPost>> CreateJob([FromBody] JobPostDto dto)
+        {
+            var error = Validate(dto);
+            if (error != null)
+                return BadRequest(error);
+
+            var now = DateTime.UtcNow;
+            var job = new JobPost
+            {
+                Id = $"job-{Guid.NewGuid():N}"[..16],
+                CreatedAt = now,
+                UpdatedAt = now
+            };
+            Apply(job, dto);
+
+            _context.JobPosts.Add(job);
+            _context.JobPostVersions.Add(JobPostVersion.FromJob(job));
+            await _context.SaveChangesAsync();
+            return CreatedAtAction(nameof(GetJob), new { id = job.Id }, job);
+        }
+
+        [HttpPut("{id}")]
+        public async Task<ActionResult<JobPost>> UpdateJob(string id, [FromBody] JobPostDto dto)
+        {
+            var job = await _context.JobPosts.FirstOrDefaultAsync(j => j.Id == id);
+            if (job == null)
+                return NotFound("Job not found.");
+            if (dto.Version != job.Version)
+                return Conflict(job); // Someone saved in between; the client reloads the returned copy
+
+            var error = Validate(dto);
+            if (error != null)
+                return BadRequest(error);
+
+            Apply(job, dto);
+            job.Version++;
+            job.UpdatedAt = DateTime.UtcNow;
+            _context.JobPostVersions.Add(JobPostVersion.FromJob(job));
+
+            await _context.SaveChangesAsync();
+            return Ok(job);
+        }
+
+        [HttpGet("{id}/versions")]
+        public async Task<ActionResult<IEnumerable<object>>> GetVersions(string id)
+        {
+            var versions = await _context.JobPostVersions.AsNoTracking()
+                .Where(v => v.JobPostId == id)
+                .OrderByDescending(v => v.Version)
+                .Select(v => new { v.Version, v.Title, v.CreatedAt, QuestionCount = v.Questions.Count })
+                .ToListAsync();
+            return Ok(versions);
+        }
+
+        [HttpGet("{id}/versions/{version:int}")]
+        public async Task<ActionResult<JobPostVersion>> GetVersion(string id, int version)
+        {
+            var snapshot = await _context.JobPostVersions.AsNoTracking()
+                .FirstOrDefaultAsync(v => v.JobPostId == id && v.Version == version);
+            if (snapshot == null)
+                return NotFound("Job version not found.");
+            return Ok(snapshot);
+        }
+
+        // Versions are kept so reports for past sessions still resolve
+        [HttpDelete("{id}")]
+        public async Task<IActionResult> DeleteJob(string id)
+        {
+            var job = await _context.JobPosts.FirstOrDefaultAsync(j => j.Id == id);
+            if (job == null)
+                return NotFound("Job not found.");
+
+            _context.JobPosts.Remove(job);
+            await _context.SaveChangesAsync();
+            return NoContent();
+        }
+
+        private string? Validate(JobPostDto dto)
+        {
+            if (string.IsNullOrWhiteSpace(dto.Title))
+                return "Title is required.";
+            if (!Statuses.Contains(dto.Status))
+                return "Status must be ACTIVE or INACTIVE.";
+            if (dto.Questions.Any(q => string.IsNullOrWhiteSpace(q.Text)))
+                return "Every question needs text.";
+            if (dto.Questions.Select(q => q.Id).Distinct().Count() != dto.Questions.Count)
+                return "Question ids must be unique within a job.";
+            if (!InterviewLanguages.Names.ContainsKey(dto.Settings.Language))
+                return "Interview language is not supported.";
+            var translations = dto.Questions.SelectMany(q => q.Translations ?? new());
+            if (translations.Any(t => !InterviewLanguages.Names.ContainsKey(t.Key)))
+                return "Question translations must be in a supported language.";
+            if (translations.Any(t => string.IsNullOrWhiteSpace(t.Value.Text)))
+                return "Every question translation needs text.";
+            if (!_providers.IsAllowed(dto.EvaluationProvider))
+                return "Evaluation provider or model is not offered by this server.";
+            return null;
+        }
+
+        private static void Apply(JobPost job, JobPostDto dto)
+        {
+            job.Title = dto.Title.Trim();
+            job.Description = dto.Description;
+            job.Status = dto.Status;
+            job.Questions = dto.Questions;
+            job.Settings = dto.Settings;
+            job.EvaluationProvider = dto.EvaluationProvider;
+        }
+    }
+
+    public class JobPostDto
+    {
+        public string Title { get; set; } = string.Empty;
+        public string? Description { get; set; }
+        public string Status { get; set; } = "ACTIVE";
+        public List<Question> Questions { get; set; } = new();
+        public RoleSettings Settings { get; set; } = new();
+        public EvaluationProviderConfig? EvaluationProvider { get; set; }
+        public int Version { get; set; } // Required on update: the version the client edited
+    }
+}
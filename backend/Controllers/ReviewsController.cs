@@ -0,0 +1,92 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using ReincrewBackend.Data;
+using ReincrewBackend.Models;
+
+namespace ReincrewBackend.Controllers
+{
+    // Admin queue for interviews ended by proctoring. The candidate stays locked out until a
+    // decision other than UPHOLD is made.
+    [ApiController]
+    [Route("api/[controller]")]
+    public class ReviewsController : ControllerBase
+    {
+        private const int MaxNoteLength = 2000;
+        // An upheld lockout can still be reversed later; a lifted one is final
+        private static readonly string[] OpenReviews = { "PENDING", "UPHELD" };
+
+        private readonly AppDbContext _context;
+
+        public ReviewsController(AppDbContext context)
+        {
+            _context = context;
+        }
+
+        [HttpGet]
+        public async Task<ActionResult<IEnumerable<InterviewSession>>> GetReviews([FromQuery] string? review)
+        {
+            var query = _context.InterviewSessions.AsNoTracking()
+                .Include(s => s.Candidate)
+                .Include(s => s.Results)
+                .Include(s => s.Warnings)
+                .Where(s => s.Review != null);
+            if (!string.IsNullOrEmpty(review))
+                query = query.Where(s => s.Review == review);
+            return Ok(await query.OrderByDescending(s => s.Date).ToListAsync());
+        }
+
+        [HttpPost("{sessionId:int}")]
+        public async Task<ActionResult<InterviewSession>> Decide(int sessionId, [FromBody] ReviewDecisionDto dto)
+        {
+            var session = await _context.InterviewSessions
+                .Include(s => s.Candidate)
+                .Include(s => s.Results)
+                .Include(s => s.Warnings)
+                .FirstOrDefaultAsync(s => s.Id == sessionId);
+            if (session == null)
+                return NotFound("Interview session not found.");
+            if (!OpenReviews.Contains(session.Review))
+                return Conflict("This session has no open lockout to review.");
+            if (dto.Note?.Length > MaxNoteLength)
+                return BadRequest("Review note is too long.");
+
+            switch (dto.Decision)
+            {
+                case "UPHOLD":
+                    session.Review = "UPHELD";
+                    break;
+                case "REINSTATE":
+                    // Termination overturned: the answers given count as a finished interview
+                    session.Review = "REINSTATED";
+                    session.Status = "COMPLETED";
+                    break;
+                case "RETAKE":
+                    // The session stays void and the candidate may start a fresh interview
+                    session.Review = "RETAKE_GRANTED";
+                    session.Status = "TERMINATED";
+                    break;
+                default:
+                    return BadRequest("Decision must be UPHOLD, REINSTATE or RETAKE.");
+            }
+            session.ReviewedAt = DateTime.UtcNow;
+            session.ReviewNote = dto.Note;
+
+            if (session.Review != "UPHELD")
+            {
+                var stillLocked = await _context.InterviewSessions.AnyAsync(s =>
+                    s.CandidateId == session.CandidateId && s.Id != session.Id && OpenReviews.Contains(s.Review));
+                if (!stillLocked)
+                    session.Candidate.LockedOutAt = null;
+            }
+
+            await _context.SaveChangesAsync();
+            return Ok(session);
+        }
+    }
+
+    public class ReviewDecisionDto
+    {
+        public string Decision { get; set; } = string.Empty; // UPHOLD, REINSTATE, RETAKE
+        public string? Note { get; set; }
+    }
+}
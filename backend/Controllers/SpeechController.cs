@@ -0,0 +1,79 @@
+using System.Net.Http.Headers;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using ReincrewBackend.Data;
+using ReincrewBackend.Services;
+
+namespace ReincrewBackend.Controllers
+{
+    // Server-side transcription for browsers without Web Speech. The client posts a few seconds of
+    // recorded audio at a time and gets the text back; only for an interview in progress, since every
+    // call is paid for on the server's Whisper key.
+    [ApiController]
+    [Route("api/[controller]")]
+    public class SpeechController : ControllerBase
+    {
+        private const int MaxAudioBytes = 5 * 1024 * 1024; // Clients send segments of 20s at most
+        // A 20s segment costs at most five calls (four interim passes and the final one), so this
+        // covers about an hour of speech
+        private const int MaxTranscriptionsPerSession = 1000;
+        private static readonly string[] AllowedTypes = { "audio/webm", "audio/mp4", "audio/ogg", "audio/wav" };
+
+        private readonly AppDbContext _context;
+        private readonly TranscriptionService _transcriptionService;
+        private readonly ILogger<SpeechController> _logger;
+
+        public SpeechController(AppDbContext context, TranscriptionService transcriptionService, ILogger<SpeechController> logger)
+        {
+            _context = context;
+            _transcriptionService = transcriptionService;
+            _logger = logger;
+        }
+
+        [HttpGet]
+        public IActionResult GetStatus()
+        {
+            return Ok(new { whisper = _transcriptionService.IsConfigured });
+        }
+
+        [HttpPost("transcriptions")]
+        [RequestSizeLimit(MaxAudioBytes)]
+        public async Task<IActionResult> Transcribe([FromQuery] int sessionId, [FromQuery] string? language)
+        {
+            if (!_transcriptionService.IsConfigured)
+                return StatusCode(503, new { error = "Server transcription is not configured." });
+            var contentType = Request.ContentType ?? string.Empty;
+            if (!MediaTypeHeaderValue.TryParse(contentType, out var mediaType) || !AllowedTypes.Contains(mediaType.MediaType))
+                return BadRequest("Audio format is not supported.");
+            if (language != null && (language.Length > 8 || !language.All(char.IsLetter)))
+                return BadRequest("Language must be an ISO 639-1 code.");
+
+            var session = await _context.InterviewSessions
+                .Include(s => s.Candidate)
+                .FirstOrDefaultAsync(s => s.Id == sessionId);
+            if (session == null)
+                return NotFound("Interview session not found.");
+            if (session.Candidate.LockedOutAt != null)
+                return StatusCode(403, "Interview access is locked pending review of your last session.");
+            if (session.Status != "IN_PROGRESS" || session.Review != null)
+                return Conflict("Interview session is no longer accepting answers.");
+            // Claimed in one statement so parallel uploads can't slip past the cap
+            var claimed = await _context.InterviewSessions
+                .Where(s => s.Id == session.Id && s.Transcriptions < MaxTranscriptionsPerSession)
+                .ExecuteUpdateAsync(s => s.SetProperty(x => x.Transcriptions, x => x.Transcriptions + 1), HttpContext.RequestAborted);
+            if (claimed == 0)
+                return StatusCode(429, "Transcription limit for this interview has been reached.");
+
+            try
+            {
+                var text = await _transcriptionService.TranscribeAsync(Request.Body, contentType, language, HttpContext.RequestAborted);
+                return Ok(new { text });
+            }
+            catch (TranscriptionException ex)
+            {
+                _logger.LogError(ex, "Transcription failed");
+                return StatusCode(502, new { error = ex.Message });
+            }
+        }
+    }
+}
@@ -1,3 +1,7 @@
+using System;
+using System.Collections.Generic;
+using System.Linq.Expressions;
+using System.Text.Json;
 using Microsoft.EntityFrameworkCore;
 using ReincrewBackend.Models;
 
@@ -5,6 +9,8 @@ namespace ReincrewBackend.Data
 {
     public class AppDbContext : DbContext
     {
+        private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
         public AppDbContext(DbContextOptions<AppDbContext> options) : base(options) { }
 
         public DbSet<Candidate> Candidates { get; set; }
@@ -12,6 +18,10 @@ namespace ReincrewBackend.Data
         public DbSet<EvaluationResult> EvaluationResults { get; set; }
         public DbSet<WarningEvent> WarningEvents { get; set; }
         public DbSet<AdminProfile> AdminProfiles { get; set; }
+        public DbSet<JobPost> JobPosts { get; set; }
+        public DbSet<JobPostVersion> JobPostVersions { get; set; }
+        public DbSet<InviteCode> InviteCodes { get; set; }
+        public DbSet<AnswerClip> AnswerClips { get; set; }
 
         protected override void OnModelCreating(ModelBuilder modelBuilder)
         {
@@ -32,9 +42,44 @@ namespace ReincrewBackend.Data
                 .HasMany(s => s.Warnings)
                 .WithOne()
                 .HasForeignKey(w => w.InterviewSessionId);
-                
+
+            modelBuilder.Entity<JobPostVersion>()
+                .HasIndex(v => new { v.JobPostId, v.Version })
+                .IsUnique();
+
+            modelBuilder.Entity<InviteCode>()
+                .HasIndex(i => i.Code)
+                .IsUnique();
+
+            modelBuilder.Entity<AnswerClip>()
+                .HasIndex(c => c.InterviewSessionId);
+
+            // Nested documents are stored as jsonb rather than normalised tables
+            ConfigureJson<InterviewSession, JobSnapshot?>(modelBuilder, s => s.JobSnapshot);
+            ConfigureJson<InterviewSession, IdentitySummary?>(modelBuilder, s => s.Identity);
+            ConfigureJson<EvaluationResult, List<FollowUpTurn>>(modelBuilder, r => r.FollowUps);
+            ConfigureJson<EvaluationResult, SuspicionTimeline?>(modelBuilder, r => r.SuspicionTimeline);
+            ConfigureJson<WarningEvent, List<EvidenceFrame>>(modelBuilder, w => w.Evidence);
+            ConfigureJson<JobPost, List<Question>>(modelBuilder, j => j.Questions);
+            ConfigureJson<JobPost, RoleSettings>(modelBuilder, j => j.Settings);
+            ConfigureJson<JobPost, EvaluationProviderConfig?>(modelBuilder, j => j.EvaluationProvider);
+            ConfigureJson<JobPostVersion, List<Question>>(modelBuilder, v => v.Questions);
+            ConfigureJson<JobPostVersion, RoleSettings>(modelBuilder, v => v.Settings);
+            ConfigureJson<JobPostVersion, EvaluationProviderConfig?>(modelBuilder, v => v.EvaluationProvider);
+
             // PostgreSQL specific: handle string lists if needed
             // In .NET 8+, EF Core handles primitive collections automatically.
         }
+
+        private static void ConfigureJson<TEntity, TProperty>(ModelBuilder modelBuilder, Expression<Func<TEntity, TProperty>> property)
+            where TEntity : class
+        {
+            modelBuilder.Entity<TEntity>()
+                .Property(property)
+                .HasColumnType("jsonb")
+                .HasConversion(
+                    v => JsonSerializer.Serialize(v, JsonOptions),
+                    v => JsonSerializer.Deserialize<TProperty>(v, JsonOptions)!);
+        }
     }
 }
@@ -0,0 +1,105 @@
+using System;
+using System.Collections.Generic;
+using System.Threading.Tasks;
+using Microsoft.EntityFrameworkCore;
+using ReincrewBackend.Models;
+
+namespace ReincrewBackend.Data
+{
+    /// <summary>
+    /// Inserts the starter job posts on first run so a fresh database has something to interview for.
+    /// Existing jobs are never touched.
+    /// </summary>
+    public static class JobSeeder
+    {
+        public static async Task SeedAsync(AppDbContext context)
+        {
+            if (await context.JobPosts.AnyAsync()) return;
+
+            var now = DateTime.UtcNow;
+            foreach (var job in SeedJobs())
+            {
+                job.CreatedAt = now;
+                job.UpdatedAt = now;
+                context.JobPosts.Add(job);
+                context.JobPostVersions.Add(JobPostVersion.FromJob(job));
+            }
+            await context.SaveChangesAsync();
+        }
+
+        private static IEnumerable<JobPost> SeedJobs()
+        {
+            yield return new JobPost
+            {
+                Id = "job-frontend",
+                Title = "Senior Frontend Engineer",
+                Description = "React, TypeScript, and Performance Optimization focus.",
+                Settings = new RoleSettings { Difficulty = "Hard", Preset = "Strict" },
+                Questions = new List<Question>
+                {
+                    new()
+                    {
+                        Id = 1,
+                        Text = "Explain the concept of the Virtual DOM in React and how it improves performance.",
+                        Difficulty = "Medium",
+                        Topic = "React Internals",
+                        ReferenceAnswer = "The Virtual DOM is a lightweight in-memory representation of the real DOM. When state changes, React updates the Virtual DOM first, compares it with the previous version (diffing), and only updates the actual DOM nodes that changed (reconciliation). This minimizes slow browser layout reflows.",
+                        KeyPoints = new() { "In-memory representation", "Diffing algorithm", "Reconciliation", "Minimizes reflows/repaints" },
+                        MaxScore = 10
+                    },
+                    new()
+                    {
+                        Id = 2,
+                        Text = "What is the difference between useMemo and useCallback?",
+                        Difficulty = "Easy",
+                        Topic = "React Hooks",
+                        ReferenceAnswer = "useMemo caches the *result* of a calculation between renders. useCallback caches the *function definition* itself. Both rely on a dependency array to invalidate the cache.",
+                        KeyPoints = new() { "useMemo caches values", "useCallback caches functions", "Dependency array", "Referential equality" },
+                        MaxScore = 10
+                    },
+                    new()
+                    {
+                        Id = 3,
+                        Text = "How would you handle global state in a complex React application?",
+                        Difficulty = "Hard",
+                        Topic = "Architecture",
+                        ReferenceAnswer = "For complex apps, I separate server state (TanStack Query) from client state. For client state, I avoid Prop Drilling by using Context for static data (themes) and libraries like Zustand or Redux Toolkit for complex, frequent updates.",
+                        KeyPoints = new() { "Server vs Client state separation", "Context API limitations", "Redux/Zustand for complex state", "Avoid prop drilling" },
+                        MaxScore = 10
+                    }
+                }
+            };
+
+            yield return new JobPost
+            {
+                Id = "job-backend",
+                Title = "Backend API Developer",
+                Description = "Node.js, Systems Design, and Database focus.",
+                Settings = new RoleSettings(),
+                Questions = new List<Question>
+                {
+                    new()
+                    {
+                        Id = 1,
+                        Text = "Explain the Event Loop in Node.js.",
+                        Difficulty = "Hard",
+                        Topic = "Node Runtime",
+                        ReferenceAnswer = "Node.js is single-threaded but non-blocking. The Event Loop offloads I/O operations to the system kernel. When operations complete, their callbacks are queued in phases (timers, I/O, check/immediate, close).",
+                        KeyPoints = new() { "Single-threaded", "Non-blocking I/O", "Phases (Timers, Poll, Check)", "Call stack vs Callback queue" },
+                        MaxScore = 10
+                    },
+                    new()
+                    {
+                        Id = 2,
+                        Text = "What are the ACID properties in databases?",
+                        Difficulty = "Medium",
+                        Topic = "Databases",
+                        ReferenceAnswer = "Atomicity (all or nothing), Consistency (valid state), Isolation (transactions don't interfere), and Durability (committed data survives failure).",
+                        KeyPoints = new() { "Atomicity", "Consistency", "Isolation", "Durability" },
+                        MaxScore = 10
+                    }
+                }
+            };
+        }
+    }
+}
@@ -0,0 +1,38 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace ReincrewBackend.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddSessionJobSnapshot : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "JobPostId",
+                table: "InterviewSessions",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "JobSnapshot",
+                table: "InterviewSessions",
+                type: "jsonb",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "JobPostId",
+                table: "InterviewSessions");
+
+            migrationBuilder.DropColumn(
+                name: "JobSnapshot",
+                table: "InterviewSessions");
+        }
+    }
+}
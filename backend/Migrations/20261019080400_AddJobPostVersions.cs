@@ -0,0 +1,59 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace ReincrewBackend.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddJobPostVersions : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "JobVersion",
+                table: "InterviewSessions",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "JobPostVersions",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    JobPostId = table.Column<string>(type: "text", nullable: false),
+                    Version = table.Column<int>(type: "integer", nullable: false),
+                    Title = table.Column<string>(type: "text", nullable: false),
+                    Description = table.Column<string>(type: "text", nullable: true),
+                    Questions = table.Column<string>(type: "jsonb", nullable: false),
+                    Settings = table.Column<string>(type: "jsonb", nullable: false),
+                    EvaluationProvider = table.Column<string>(type: "jsonb", nullable: true),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_JobPostVersions", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_JobPostVersions_JobPostId_Version",
+                table: "JobPostVersions",
+                columns: new[] { "JobPostId", "Version" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "JobPostVersions");
+
+            migrationBuilder.DropColumn(
+                name: "JobVersion",
+                table: "InterviewSessions");
+        }
+    }
+}
@@ -0,0 +1,59 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace ReincrewBackend.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddProctoringLockout : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "LockedOutAt",
+                table: "Candidates",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "Review",
+                table: "InterviewSessions",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ReviewNote",
+                table: "InterviewSessions",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "ReviewedAt",
+                table: "InterviewSessions",
+                type: "timestamp with time zone",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "LockedOutAt",
+                table: "Candidates");
+
+            migrationBuilder.DropColumn(
+                name: "Review",
+                table: "InterviewSessions");
+
+            migrationBuilder.DropColumn(
+                name: "ReviewNote",
+                table: "InterviewSessions");
+
+            migrationBuilder.DropColumn(
+                name: "ReviewedAt",
+                table: "InterviewSessions");
+        }
+    }
+}
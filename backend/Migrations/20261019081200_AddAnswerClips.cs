@@ -0,0 +1,61 @@
+﻿using System;
+using System.Collections.Generic;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace ReincrewBackend.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddAnswerClips : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<List<int>>(
+                name: "ClipIds",
+                table: "EvaluationResults",
+                type: "integer[]",
+                nullable: false,
+                defaultValue: new List<int>());
+
+            migrationBuilder.CreateTable(
+                name: "AnswerClips",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    InterviewSessionId = table.Column<int>(type: "integer", nullable: false),
+                    QuestionId = table.Column<int>(type: "integer", nullable: false),
+                    MimeType = table.Column<string>(type: "text", nullable: false),
+                    ChunkCount = table.Column<int>(type: "integer", nullable: false),
+                    SizeBytes = table.Column<long>(type: "bigint", nullable: false),
+                    DurationSeconds = table.Column<double>(type: "double precision", nullable: true),
+                    StartedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    CompletedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                    ExpiresAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_AnswerClips", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_AnswerClips_InterviewSessionId",
+                table: "AnswerClips",
+                column: "InterviewSessionId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "AnswerClips");
+
+            migrationBuilder.DropColumn(
+                name: "ClipIds",
+                table: "EvaluationResults");
+        }
+    }
+}
@@ -0,0 +1,22 @@
+using System;
+
+namespace ReincrewBackend.Models
+{
+    /// <summary>
+    /// Camera and microphone recording of one answer or follow-up answer. The client uploads it in
+    /// chunks while the candidate speaks; the bytes live in the media store, not the database.
+    /// </summary>
+    public class AnswerClip
+    {
+        public int Id { get; set; }
+        public int InterviewSessionId { get; set; }
+        public int QuestionId { get; set; }
+        public string MimeType { get; set; } = string.Empty; // e.g. video/webm;codecs=vp8,opus
+        public int ChunkCount { get; set; }
+        public long SizeBytes { get; set; }
+        public double? DurationSeconds { get; set; } // Set when the client finishes the upload
+        public DateTime StartedAt { get; set; }
+        public DateTime? CompletedAt { get; set; }
+        public DateTime? ExpiresAt { get; set; } // From the role's retention period; null = kept until deleted
+    }
+}
@@ -1,3 +1,5 @@
+using System;
+
 namespace ReincrewBackend.Models
 {
     public class Candidate
@@ -15,5 +17,8 @@ namespace ReincrewBackend.Models
         public string? ProfilePhoto { get; set; }
         public string? IdCardImage { get; set; }
         public bool IsVerified { get; set; }
+
+        // Set when a proctored interview is terminated; no interview can start until an admin lifts it
+        public DateTime? LockedOutAt { get; set; }
     }
 }
@@ -1,5 +1,7 @@
 using System;
 using System.Collections.Generic;
+using System.Linq;
+using System.Text.Json.Serialization;
 
 namespace ReincrewBackend.Models
 {
@@ -14,6 +16,51 @@ namespace ReincrewBackend.Models
         public List<EvaluationResult> Results { get; set; } = new();
         public List<WarningEvent> Warnings { get; set; } = new();
         public int DurationSeconds { get; set; }
+        public string? JobPostId { get; set; }
+        public int? JobVersion { get; set; } // JobPostVersion the questions were taken from
+
+        // Set by checkpoints while IN_PROGRESS so a reloaded browser can pick up where it left off
+        public int? CurrentQuestionId { get; set; }
+        public DateTime? LastCheckpointAt { get; set; }
+
+        // Admin review of a proctoring termination: PENDING, UPHELD, REINSTATED, RETAKE_GRANTED
+        public string? Review { get; set; }
+        public DateTime? ReviewedAt { get; set; }
+        public string? ReviewNote { get; set; }
+
+        // Whisper calls made for this session; SpeechController stops forwarding audio at its cap
+        [JsonIgnore]
+        public int Transcriptions { get; set; }
+
+        // Face-match checks the client made against the candidate's registered photos, when the role asks for them
+        public IdentitySummary? Identity { get; set; }
+
+        // Questions and settings the session was started with; server-only because it holds reference answers
+        [JsonIgnore]
+        public JobSnapshot? JobSnapshot { get; set; }
+
+        /// <summary>Locks the candidate out and queues this session for admin review.</summary>
+        public void LockOutCandidate()
+        {
+            Review = "PENDING";
+            Candidate.LockedOutAt ??= DateTime.UtcNow;
+        }
+    }
+
+    public class IdentitySummary
+    {
+        public List<string> References { get; set; } = new(); // SELFIE, ID_CARD
+        public int Checks { get; set; }
+        public int Mismatches { get; set; }
+        public int MeanConfidence { get; set; }
+        public int MinConfidence { get; set; }
+    }
+
+    public class JobSnapshot
+    {
+        public List<Question> Questions { get; set; } = new();
+        public RoleSettings? Settings { get; set; }
+        public EvaluationProviderConfig? EvaluationProvider { get; set; }
     }
 
     public class EvaluationResult
@@ -34,6 +81,37 @@ namespace ReincrewBackend.Models
         public int ConfidenceScore { get; set; }
         public string ExpressionAnalysis { get; set; } = string.Empty;
         public DateTime Timestamp { get; set; }
+        public string Source { get; set; } = "llm"; // llm, offline
+        public string InputMode { get; set; } = "spoken"; // spoken, typed
+        public List<FollowUpTurn> FollowUps { get; set; } = new();
+        public SuspicionTimeline? SuspicionTimeline { get; set; } // Camera metrics recorded by the client while answering
+        public List<int> ClipIds { get; set; } = new(); // AnswerClips of the answer and its follow-ups, oldest first
+    }
+
+    public class SuspicionTimeline
+    {
+        public double BucketSeconds { get; set; }
+        public List<SuspicionSample> Samples { get; set; } = new();
+        public int DurationSeconds { get; set; }
+        public int LookingAwayPct { get; set; }
+        public int TalkingPct { get; set; }
+        public int PhonePct { get; set; }
+        public int PeakSuspicion { get; set; }
+        public double FaceMissingSeconds { get; set; }
+    }
+
+    public class SuspicionSample
+    {
+        public double T { get; set; }
+        public int Suspicion { get; set; }
+        public bool? Away { get; set; }
+        public bool? FaceMissing { get; set; }
+    }
+
+    public class FollowUpTurn
+    {
+        public string Question { get; set; } = string.Empty;
+        public string Answer { get; set; } = string.Empty;
     }
 
     public class WarningEvent
@@ -41,7 +119,22 @@ namespace ReincrewBackend.Models
         public int Id { get; set; }
         public int InterviewSessionId { get; set; }
         public DateTime Timestamp { get; set; }
-        public string Type { get; set; } = string.Empty; // GAZE, FACE_MISSING, etc.
+        public string Type { get; set; } = string.Empty; // GAZE, FACE_MISSING, MULTIPLE_FACES, PHONE_SUSPECTED, TALKING, LOOKING_DOWN, PHONE_DETECTED, BOOK_DETECTED, SCREEN_DETECTED, OBJECT_DETECTION_UNAVAILABLE, IDENTITY_MISMATCH, IDENTITY_CHECK_UNAVAILABLE, VOICE_WITHOUT_LIPS, VOICE_DURING_QUESTION, MULTIPLE_VOICES, AUDIO_MONITORING_UNAVAILABLE, TAB_SWITCH, FULLSCREEN_EXIT
+        public string? Severity { get; set; } // LOW, MEDIUM, HIGH
         public string Message { get; set; } = string.Empty;
+        public List<EvidenceFrame> Evidence { get; set; } = new(); // Camera frames leading up to the warning
+    }
+
+    public class EvidenceFrame
+    {
+        private const int MaxPerWarning = 8;
+        private const int MaxImageLength = 200_000; // Clients send ~10 KB thumbnails
+
+        public DateTime Timestamp { get; set; }
+        public string Image { get; set; } = string.Empty; // JPEG data URL
+        public bool Trigger { get; set; }
+
+        public static bool AnyOversized(IEnumerable<WarningEvent> warnings) =>
+            warnings.Any(w => w.Evidence.Count > MaxPerWarning || w.Evidence.Any(f => f.Image.Length > MaxImageLength));
     }
 }
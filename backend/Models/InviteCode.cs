@@ -0,0 +1,28 @@
+using System;
+
+namespace ReincrewBackend.Models
+{
+    /// <summary>
+    /// Access code that lets a candidate register (or re-bind an existing account) for one job.
+    /// The code becomes the candidate's AccessId once redeemed.
+    /// </summary>
+    public class InviteCode
+    {
+        public int Id { get; set; }
+        public string Code { get; set; } = string.Empty; // e.g. K7QF-2MXD
+        public string JobPostId { get; set; } = string.Empty;
+        public string? Email { get; set; } // When set, only this address may redeem it
+        public int MaxUses { get; set; } = 1;
+        public int UseCount { get; set; }
+        public DateTime? ExpiresAt { get; set; }
+        public DateTime CreatedAt { get; set; }
+        public DateTime? RevokedAt { get; set; }
+        public DateTime? LastRedeemedAt { get; set; }
+
+        public string Status =>
+            RevokedAt != null ? "REVOKED"
+            : UseCount >= MaxUses ? "USED"
+            : ExpiresAt != null && ExpiresAt <= DateTime.UtcNow ? "EXPIRED"
+            : "ACTIVE";
+    }
+}
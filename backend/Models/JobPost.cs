@@ -0,0 +1,21 @@
+using System;
+using System.Collections.Generic;
+
+namespace ReincrewBackend.Models
+{
+    public class JobPost
+    {
+        public string Id { get; set; } = string.Empty; // e.g. job-frontend
+        public string Title { get; set; } = string.Empty;
+        public string? Description { get; set; }
+        public string Status { get; set; } = "ACTIVE"; // ACTIVE, INACTIVE
+        public List<Question> Questions { get; set; } = new();
+        public RoleSettings Settings { get; set; } = new();
+        public EvaluationProviderConfig? EvaluationProvider { get; set; }
+
+        // Incremented on every update; a client must send the version it edited (optimistic concurrency)
+        public int Version { get; set; } = 1;
+        public DateTime CreatedAt { get; set; }
+        public DateTime UpdatedAt { get; set; }
+    }
+}
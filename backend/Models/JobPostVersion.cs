@@ -0,0 +1,34 @@
+using System;
+using System.Collections.Generic;
+
+namespace ReincrewBackend.Models
+{
+    /// <summary>
+    /// Immutable copy of a job as it stood after one save. Rows are only ever inserted, so a session's
+    /// JobPostId + JobVersion always resolves to the questions and settings it was run with.
+    /// </summary>
+    public class JobPostVersion
+    {
+        public int Id { get; set; }
+        public string JobPostId { get; set; } = string.Empty;
+        public int Version { get; set; }
+        public string Title { get; set; } = string.Empty;
+        public string? Description { get; set; }
+        public List<Question> Questions { get; set; } = new();
+        public RoleSettings Settings { get; set; } = new();
+        public EvaluationProviderConfig? EvaluationProvider { get; set; }
+        public DateTime CreatedAt { get; set; }
+
+        public static JobPostVersion FromJob(JobPost job) => new()
+        {
+            JobPostId = job.Id,
+            Version = job.Version,
+            Title = job.Title,
+            Description = job.Description,
+            Questions = job.Questions,
+            Settings = job.Settings,
+            EvaluationProvider = job.EvaluationProvider,
+            CreatedAt = job.UpdatedAt
+        };
+    }
+}
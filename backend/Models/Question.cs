@@ -0,0 +1,47 @@
+using System.Collections.Generic;
+
+namespace ReincrewBackend.Models
+{
+    public class Question
+    {
+        public int Id { get; set; }
+        public string Text { get; set; } = string.Empty;
+        public string? Topic { get; set; }
+        public string? Difficulty { get; set; } // Easy, Medium, Hard
+        public string? ReferenceAnswer { get; set; }
+        public List<string> KeyPoints { get; set; } = new();
+        public int? MaxScore { get; set; }
+        public int MaxFollowUps { get; set; } // 0 = never probe missed key points
+        public Dictionary<string, QuestionTranslation>? Translations { get; set; } // Keyed by interview language
+
+        /// <summary>
+        /// The question as asked in the given language; untranslated questions are asked as written.
+        /// </summary>
+        public Question Localize(string language)
+        {
+            if (Translations == null || !Translations.TryGetValue(language, out var translation) || string.IsNullOrWhiteSpace(translation.Text))
+                return this;
+
+            return new Question
+            {
+                Id = Id,
+                Text = translation.Text,
+                Topic = Topic,
+                Difficulty = Difficulty,
+                ReferenceAnswer = translation.ReferenceAnswer ?? ReferenceAnswer,
+                KeyPoints = translation.KeyPoints?.Where(k => !string.IsNullOrWhiteSpace(k)).ToList() ?? KeyPoints,
+                MaxScore = MaxScore,
+                MaxFollowUps = MaxFollowUps,
+                Translations = Translations
+            };
+        }
+    }
+
+    // The question as asked in another language; null fields fall back to the original
+    public class QuestionTranslation
+    {
+        public string Text { get; set; } = string.Empty;
+        public string? ReferenceAnswer { get; set; }
+        public List<string>? KeyPoints { get; set; }
+    }
+}
@@ -0,0 +1,82 @@
+namespace ReincrewBackend.Models
+{
+    public class RoleSettings
+    {
+        public string Difficulty { get; set; } = "Medium"; // Very Easy, Easy, Medium, Hard, Very Hard
+        public string Preset { get; set; } = "Normal"; // Relaxed, Normal, Strict, Custom
+        public ScoringWeights Weights { get; set; } = new();
+        public ProctoringSettings Proctoring { get; set; } = new();
+        public AdaptiveSettings? Adaptive { get; set; }
+        public ResumePolicy? Resume { get; set; }
+        public RecordingPolicy? Recording { get; set; }
+        public bool TypedAnswers { get; set; } // Every candidate types instead of speaking; candidates may also opt in
+        public string Language { get; set; } = InterviewLanguages.Default; // One of InterviewLanguages
+    }
+
+    // Languages an interview can be held in, by BCP 47 code, with the name evaluation prompts use.
+    // The frontend keeps the same list in services/languages.ts.
+    public static class InterviewLanguages
+    {
+        public const string Default = "en-US";
+
+        public static readonly IReadOnlyDictionary<string, string> Names = new Dictionary<string, string>
+        {
+            ["en-US"] = "American English",
+            ["en-GB"] = "British English",
+            ["es-ES"] = "Spanish",
+            ["fr-FR"] = "French",
+            ["de-DE"] = "German",
+            ["it-IT"] = "Italian",
+            ["pt-BR"] = "Brazilian Portuguese",
+            ["nl-NL"] = "Dutch"
+        };
+
+        public static string NameOf(string? code) =>
+            code != null && Names.TryGetValue(code, out var name) ? name : Names[Default];
+    }
+
+    public class ScoringWeights
+    {
+        public int Concept { get; set; } = 50;
+        public int Grammar { get; set; } = 20;
+        public int Fluency { get; set; } = 20;
+        public int Camera { get; set; } = 10;
+    }
+
+    public class ProctoringSettings
+    {
+        public int MaxWarnings { get; set; } = 3;
+        public string Sensitivity { get; set; } = "Medium"; // Low, Medium, High
+        public bool IncludeInScore { get; set; } = true;
+        public Dictionary<string, double>? TypeWeights { get; set; } // Strikes per warning type; absent types use the defaults in SessionScoring
+        public bool ObjectDetection { get; set; } // Look for phones, books and second screens in frame
+        public string? IdentityCheck { get; set; } // SELFIE, SELFIE_AND_ID; null = off
+        public bool AudioMonitoring { get; set; } // Listen for other voices and speech without lip movement
+    }
+
+    public class AdaptiveSettings
+    {
+        public bool Enabled { get; set; }
+        public int EscalateAfterPasses { get; set; } = 2;
+        public int MaxQuestions { get; set; } // 0 = whole bank
+        public int StopConfidence { get; set; } // percent, 0 = off
+    }
+
+    public class ResumePolicy
+    {
+        public bool Enabled { get; set; } = true;
+        public int ExpiresAfterMinutes { get; set; } = 60; // Since the last checkpoint, 0 = no limit
+    }
+
+    public class RecordingPolicy
+    {
+        public bool Enabled { get; set; }
+        public int RetentionDays { get; set; } = 30; // Clips are deleted this long after recording, 0 = keep
+    }
+
+    public class EvaluationProviderConfig
+    {
+        public string Type { get; set; } = "gemini"; // gemini, openai, local
+        public string? Model { get; set; } // Must be the provider's configured Model or listed in its Models
+    }
+}
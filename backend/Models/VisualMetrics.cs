@@ -0,0 +1,16 @@
+namespace ReincrewBackend.Models
+{
+    // Snapshot of the candidate's camera metrics sent alongside an answer
+    public class VisualMetrics
+    {
+        public bool IsPresent { get; set; }
+        public bool IsLookingAtCamera { get; set; }
+        public string CurrentExpression { get; set; } = string.Empty;
+        public int ConfidenceLevel { get; set; }
+        public string HeadPose { get; set; } = "FORWARD"; // FORWARD, DOWN, LEFT, RIGHT, UP
+        public bool IsLookingDown { get; set; }
+        public bool IsTalking { get; set; }
+        public bool SuspectedPhoneUse { get; set; }
+        public int SuspicionLevel { get; set; }
+    }
+}
@@ -1,5 +1,6 @@
 using Microsoft.EntityFrameworkCore;
 using ReincrewBackend.Data;
+using ReincrewBackend.Services;
 
 Console.WriteLine("Server Starting...");
 var builder = WebApplication.CreateBuilder(args);
@@ -13,6 +14,20 @@ builder.Services.AddSwaggerGen();
 builder.Services.AddDbContext<AppDbContext>(options =>
     options.UseNpgsql(builder.Configuration.GetConnectionString("DefaultConnection")));
 
+// Answer evaluation and question authoring (LLM keys stay server-side; see the "Evaluation" config section)
+builder.Services.AddHttpClient("evaluation", client => client.Timeout = TimeSpan.FromSeconds(30));
+builder.Services.AddScoped<EvaluationProviderFactory>();
+builder.Services.AddScoped<EvaluationService>();
+builder.Services.AddScoped<AuthoringService>();
+
+// Server-side speech-to-text for browsers without Web Speech (see the "Speech" config section)
+builder.Services.AddHttpClient("speech", client => client.Timeout = TimeSpan.FromSeconds(30));
+builder.Services.AddScoped<TranscriptionService>();
+
+// Answer recordings on disk (see the "Media" config section), pruned hourly by retention date
+builder.Services.AddScoped<ClipStore>();
+builder.Services.AddHostedService<ClipRetentionService>();
+
 Console.WriteLine("Services added...");
 
 // Configure CORS
@@ -30,6 +45,19 @@ builder.Services.AddCors(options =>
 var app = builder.Build();
 Console.WriteLine("App built...");
 
+// Seed the starter job posts on an empty database
+using (var scope = app.Services.CreateScope())
+{
+    try
+    {
+        await JobSeeder.SeedAsync(scope.ServiceProvider.GetRequiredService<AppDbContext>());
+    }
+    catch (Exception ex)
+    {
+        app.Logger.LogError(ex, "Seeding the starter job posts failed");
+    }
+}
+
 // Configure the HTTP request pipeline.
 if (app.Environment.IsDevelopment())
 {
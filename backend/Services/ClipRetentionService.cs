@@ -0,0 +1,51 @@
+using System;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+
+namespace ReincrewBackend.Services
+{
+    /// <summary>Deletes answer recordings once their role's retention period has passed.</summary>
+    public class ClipRetentionService : BackgroundService
+    {
+        private static readonly TimeSpan Interval = TimeSpan.FromHours(1);
+
+        private readonly IServiceScopeFactory _scopeFactory;
+        private readonly ILogger<ClipRetentionService> _logger;
+
+        public ClipRetentionService(IServiceScopeFactory scopeFactory, ILogger<ClipRetentionService> logger)
+        {
+            _scopeFactory = scopeFactory;
+            _logger = logger;
+        }
+
+        protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+        {
+            while (!stoppingToken.IsCancellationRequested)
+            {
+                try
+                {
+                    using var scope = _scopeFactory.CreateScope();
+                    var removed = await scope.ServiceProvider.GetRequiredService<ClipStore>().PurgeExpiredAsync(stoppingToken);
+                    if (removed > 0)
+                        _logger.LogInformation("Deleted {Count} expired answer clips", removed);
+                }
+                catch (Exception ex) when (ex is not OperationCanceledException)
+                {
+                    _logger.LogError(ex, "Answer clip cleanup failed");
+                }
+
+                try
+                {
+                    await Task.Delay(Interval, stoppingToken);
+                }
+                catch (OperationCanceledException)
+                {
+                    break;
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,118 @@
+using System;
+using System.Collections.Generic;
+using System.IO;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
+using ReincrewBackend.Data;
+using ReincrewBackend.Models;
+
+namespace ReincrewBackend.Services
+{
+    /// <summary>
+    /// Keeps answer recordings on disk under the "Media:Root" directory, one file per clip, and
+    /// their metadata in the AnswerClips table.
+    /// </summary>
+    public class ClipStore
+    {
+        private readonly AppDbContext _context;
+        private readonly string _root;
+
+        public ClipStore(AppDbContext context, IConfiguration configuration)
+        {
+            _context = context;
+            _root = Path.GetFullPath(configuration["Media:Root"] ?? "media");
+        }
+
+        public string PathOf(AnswerClip clip) =>
+            Path.Combine(_root, $"session-{clip.InterviewSessionId}", $"clip-{clip.Id}");
+
+        public async Task<AnswerClip> CreateAsync(InterviewSession session, int questionId, string mimeType, RecordingPolicy policy)
+        {
+            var now = DateTime.UtcNow;
+            var clip = new AnswerClip
+            {
+                InterviewSessionId = session.Id,
+                QuestionId = questionId,
+                MimeType = mimeType,
+                StartedAt = now,
+                ExpiresAt = policy.RetentionDays > 0 ? now.AddDays(policy.RetentionDays) : null
+            };
+            _context.AnswerClips.Add(clip);
+            await _context.SaveChangesAsync();
+
+            Directory.CreateDirectory(Path.GetDirectoryName(PathOf(clip))!);
+            await File.WriteAllBytesAsync(PathOf(clip), Array.Empty<byte>());
+            return clip;
+        }
+
+        /// <summary>
+        /// Appends the next chunk. Returns false, keeping nothing, if it would take the clip past maxClipBytes.
+        /// </summary>
+        public async Task<bool> AppendAsync(AnswerClip clip, Stream chunk, long maxClipBytes, CancellationToken cancellationToken)
+        {
+            await using (var file = new FileStream(PathOf(clip), FileMode.OpenOrCreate, FileAccess.Write))
+            {
+                // Bytes past SizeBytes are from a chunk that never finished; its retry starts over
+                file.SetLength(clip.SizeBytes);
+                file.Position = clip.SizeBytes;
+                var kept = false;
+                try
+                {
+                    var buffer = new byte[81920];
+                    int read;
+                    while ((read = await chunk.ReadAsync(buffer, cancellationToken)) > 0)
+                    {
+                        if (file.Position + read > maxClipBytes)
+                            return false;
+                        await file.WriteAsync(buffer.AsMemory(0, read), cancellationToken);
+                    }
+                    kept = true;
+                }
+                finally
+                {
+                    if (!kept) file.SetLength(clip.SizeBytes);
+                }
+                clip.SizeBytes = file.Length;
+            }
+            clip.ChunkCount++;
+            await _context.SaveChangesAsync();
+            return true;
+        }
+
+        /// <summary>Points each result at the clips recorded for its question, oldest first.</summary>
+        public async Task LinkAsync(int sessionId, IEnumerable<EvaluationResult> results)
+        {
+            var clips = await _context.AnswerClips.AsNoTracking()
+                .Where(c => c.InterviewSessionId == sessionId)
+                .ToListAsync();
+            foreach (var result in results)
+            {
+                result.ClipIds = clips
+                    .Where(c => c.QuestionId == result.QuestionId)
+                    .OrderBy(c => c.StartedAt)
+                    .Select(c => c.Id)
+                    .ToList();
+            }
+        }
+
+        /// <summary>Deletes clips past their retention date, files first. Returns how many were removed.</summary>
+        public async Task<int> PurgeExpiredAsync(CancellationToken cancellationToken)
+        {
+            var now = DateTime.UtcNow;
+            var expired = await _context.AnswerClips
+                .Where(c => c.ExpiresAt != null && c.ExpiresAt <= now)
+                .ToListAsync(cancellationToken);
+            foreach (var clip in expired)
+            {
+                if (File.Exists(PathOf(clip)))
+                    File.Delete(PathOf(clip));
+                _context.AnswerClips.Remove(clip);
+            }
+            await _context.SaveChangesAsync(cancellationToken);
+            return expired.Count;
+        }
+    }
+}
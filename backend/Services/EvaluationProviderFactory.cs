@@ -0,0 +1,102 @@
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Net.Http;
+using System.Text.Json;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Configuration;
+using ReincrewBackend.Models;
+
+namespace ReincrewBackend.Services
+{
+    /// <summary>
+    /// Resolves a job's provider config against the "Evaluation" config section and sends prompts to it.
+    /// Shared by grading and question authoring so both use the same keys and endpoints.
+    /// </summary>
+    public class EvaluationProviderFactory
+    {
+        private readonly IHttpClientFactory _httpClientFactory;
+        private readonly IConfiguration _configuration;
+
+        public EvaluationProviderFactory(IHttpClientFactory httpClientFactory, IConfiguration configuration)
+        {
+            _httpClientFactory = httpClientFactory;
+            _configuration = configuration;
+        }
+
+        public async Task<string> CompleteJsonAsync(
+            EvaluationProviderConfig? config,
+            string prompt,
+            object responseSchema,
+            CancellationToken cancellationToken = default)
+        {
+            var provider = Create(config);
+            try
+            {
+                return await provider.CompleteJsonAsync(prompt, responseSchema, cancellationToken);
+            }
+            catch (HttpRequestException ex)
+            {
+                throw new EvaluationException($"Evaluation provider '{provider.Name}' is unreachable.", ex);
+            }
+            catch (TaskCanceledException ex) when (!cancellationToken.IsCancellationRequested)
+            {
+                throw new EvaluationException($"Evaluation provider '{provider.Name}' timed out.", ex);
+            }
+            // The providers read the reply envelope with GetProperty and indexers, which throw these when it isn't the documented shape
+            catch (Exception ex) when (ex is JsonException or KeyNotFoundException or IndexOutOfRangeException or InvalidOperationException)
+            {
+                throw new EvaluationException($"Evaluation provider '{provider.Name}' returned an unreadable response.", ex);
+            }
+        }
+
+        /// <summary>
+        /// Whether a client-supplied config names a known provider and, if it pins a model, one the server
+        /// offers: the provider's configured Model or an entry in its Models list.
+        /// </summary>
+        public bool IsAllowed(EvaluationProviderConfig? config)
+        {
+            if (config == null || config.Type == "local")
+                return true;
+            var section = config.Type switch { "gemini" => "Evaluation:Gemini", "openai" => "Evaluation:OpenAI", _ => null };
+            if (section == null)
+                return false;
+            return config.Model == null
+                || config.Model == _configuration[$"{section}:Model"]
+                || _configuration.GetSection($"{section}:Models").GetChildren().Any(m => m.Value == config.Model);
+        }
+
+        public IEvaluationProvider Create(EvaluationProviderConfig? config)
+        {
+            // "local" grades in the browser, so anything that still needs an LLM uses the server default
+            var fromJob = config?.Type is "gemini" or "openai";
+            var type = fromJob ? config!.Type : _configuration["Evaluation:Provider"] ?? "gemini";
+            var model = fromJob ? config!.Model : null;
+            var http = _httpClientFactory.CreateClient("evaluation");
+
+            if (type == "openai")
+            {
+                // Base URL is taken from server config only; never let a request choose where the server calls out to
+                var baseUrl = _configuration["Evaluation:OpenAI:BaseUrl"];
+                if (string.IsNullOrWhiteSpace(baseUrl))
+                    throw new EvaluationException("Evaluation:OpenAI:BaseUrl is not configured.");
+
+                return new OpenAICompatibleEvaluationProvider(
+                    http,
+                    baseUrl,
+                    _configuration["Evaluation:OpenAI:ApiKey"],
+                    model ?? _configuration["Evaluation:OpenAI:Model"] ?? "gpt-4o-mini");
+            }
+
+            var apiKey = _configuration["Evaluation:Gemini:ApiKey"];
+            if (string.IsNullOrWhiteSpace(apiKey))
+                throw new EvaluationException("Evaluation:Gemini:ApiKey is not configured.");
+
+            return new GeminiEvaluationProvider(
+                http,
+                apiKey,
+                model ?? _configuration["Evaluation:Gemini:Model"] ?? "gemini-2.5-flash");
+        }
+    }
+}
@@ -0,0 +1,58 @@
+using System;
+using System.Net.Http;
+using System.Net.Http.Json;
+using System.Text.Json;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace ReincrewBackend.Services
+{
+    public class GeminiEvaluationProvider : IEvaluationProvider
+    {
+        private const string Endpoint = "https://generativelanguage.googleapis.com/v1beta/models";
+
+        private readonly HttpClient _http;
+        private readonly string _apiKey;
+        private readonly string _model;
+
+        public GeminiEvaluationProvider(HttpClient http, string apiKey, string model)
+        {
+            _http = http;
+            _apiKey = apiKey;
+            _model = model;
+        }
+
+        public string Name => "gemini";
+
+        public async Task<string> CompleteJsonAsync(string prompt, object responseSchema, CancellationToken cancellationToken = default)
+        {
+            var body = new
+            {
+                contents = new[] { new { role = "user", parts = new[] { new { text = prompt } } } },
+                generationConfig = new
+                {
+                    temperature = 0,
+                    responseMimeType = "application/json",
+                    responseSchema
+                }
+            };
+
+            using var request = new HttpRequestMessage(HttpMethod.Post, $"{Endpoint}/{_model}:generateContent")
+            {
+                Content = JsonContent.Create(body)
+            };
+            request.Headers.Add("x-goog-api-key", _apiKey);
+
+            using var response = await _http.SendAsync(request, cancellationToken);
+            response.EnsureSuccessStatusCode();
+
+            using var doc = JsonDocument.Parse(await response.Content.ReadAsStringAsync(cancellationToken));
+            return doc.RootElement
+                .GetProperty("candidates")[0]
+                .GetProperty("content")
+                .GetProperty("parts")[0]
+                .GetProperty("text")
+                .GetString() ?? throw new InvalidOperationException("Gemini returned an empty response.");
+        }
+    }
+}
@@ -0,0 +1,16 @@
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace ReincrewBackend.Services
+{
+    /// <summary>
+    /// Transport to an LLM. Prompting and response validation live in <see cref="EvaluationService"/>,
+    /// so a provider only has to return the raw JSON text the model produced. The schema describes the
+    /// expected object for providers that can enforce it; the prompt always restates the contract.
+    /// </summary>
+    public interface IEvaluationProvider
+    {
+        string Name { get; }
+        Task<string> CompleteJsonAsync(string prompt, object responseSchema, CancellationToken cancellationToken = default);
+    }
+}
@@ -0,0 +1,64 @@
+using System;
+using System.Net.Http;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using System.Text.Json;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace ReincrewBackend.Services
+{
+    /// <summary>
+    /// Any server exposing /chat/completions: OpenAI, vLLM, Ollama, LM Studio, etc.
+    /// </summary>
+    public class OpenAICompatibleEvaluationProvider : IEvaluationProvider
+    {
+        private readonly HttpClient _http;
+        private readonly string _baseUrl;
+        private readonly string? _apiKey;
+        private readonly string _model;
+
+        public OpenAICompatibleEvaluationProvider(HttpClient http, string baseUrl, string? apiKey, string model)
+        {
+            _http = http;
+            _baseUrl = baseUrl.TrimEnd('/');
+            _apiKey = apiKey;
+            _model = model;
+        }
+
+        public string Name => "openai";
+
+        public async Task<string> CompleteJsonAsync(string prompt, object responseSchema, CancellationToken cancellationToken = default)
+        {
+            var body = new
+            {
+                model = _model,
+                temperature = 0,
+                response_format = new { type = "json_object" },
+                messages = new[]
+                {
+                    new { role = "system", content = "You assist with job interviews and reply with a single JSON object only." },
+                    new { role = "user", content = prompt }
+                }
+            };
+
+            using var request = new HttpRequestMessage(HttpMethod.Post, $"{_baseUrl}/chat/completions")
+            {
+                Content = JsonContent.Create(body)
+            };
+            // Self-hosted servers usually run without auth
+            if (!string.IsNullOrWhiteSpace(_apiKey))
+                request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", _apiKey);
+
+            using var response = await _http.SendAsync(request, cancellationToken);
+            response.EnsureSuccessStatusCode();
+
+            using var doc = JsonDocument.Parse(await response.Content.ReadAsStringAsync(cancellationToken));
+            return doc.RootElement
+                .GetProperty("choices")[0]
+                .GetProperty("message")
+                .GetProperty("content")
+                .GetString() ?? throw new InvalidOperationException("Provider returned an empty response.");
+        }
+    }
+}
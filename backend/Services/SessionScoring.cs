@@ -0,0 +1,89 @@
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using ReincrewBackend.Models;
+
+namespace ReincrewBackend.Services
+{
+    /// <summary>
+    /// Server copy of the frontend's services/scoring.ts. A finished session's overall score is
+    /// recomputed here from its stored results and warnings rather than taken from the browser.
+    /// </summary>
+    public static class SessionScoring
+    {
+        // Most a session can lose to warnings; reached when the warning limit is hit
+        private const double MaxProctoringPenalty = 25;
+        private const int DefaultMaxScore = 10;
+
+        // Strikes per warning type when the role doesn't override them (WARNING_CATALOG in services/warningPolicy.ts)
+        private static readonly IReadOnlyDictionary<string, double> DefaultWarningWeights = new Dictionary<string, double>
+        {
+            ["PHONE_SUSPECTED"] = 2,
+            ["MULTIPLE_FACES"] = 2,
+            ["SCREEN_DETECTED"] = 2,
+            ["PHONE_DETECTED"] = 2,
+            ["IDENTITY_MISMATCH"] = 2,
+            ["MULTIPLE_VOICES"] = 2,
+            ["OBJECT_DETECTION_UNAVAILABLE"] = 0,
+            ["IDENTITY_CHECK_UNAVAILABLE"] = 0,
+            ["AUDIO_MONITORING_UNAVAILABLE"] = 0
+        };
+
+        /// <summary>0-100 overall score: answers weighted by the role and each question's maxScore, less proctoring penalties.</summary>
+        public static int OverallScore(IEnumerable<EvaluationResult> results, IEnumerable<WarningEvent> warnings, JobSnapshot? job)
+        {
+            var weights = job?.Settings?.Weights ?? new ScoringWeights();
+            double earned = 0, possible = 0;
+            foreach (var result in results)
+            {
+                var maxScore = job?.Questions.FirstOrDefault(q => q.Id == result.QuestionId)?.MaxScore is > 0 and var max ? max : DefaultMaxScore;
+                earned += ScoreAnswer(result, weights) * maxScore;
+                possible += maxScore;
+            }
+
+            var answerScore = possible > 0 ? earned / possible * 100 : 0;
+            var score = Math.Clamp(answerScore - ProctoringPenalty(warnings.ToList(), job?.Settings), 0, 100);
+            return (int)Math.Round(score, MidpointRounding.AwayFromZero);
+        }
+
+        /// <summary>The role's strike limit; the interview is terminated once the warnings reach it.</summary>
+        public static int MaxWarnings(RoleSettings? settings)
+        {
+            var max = settings?.Proctoring.MaxWarnings ?? 0;
+            return Math.Max(1, max != 0 ? max : 3);
+        }
+
+        /// <summary>Strikes one warning of this type costs under the role's settings.</summary>
+        public static double WarningWeight(string type, RoleSettings? settings)
+        {
+            if (settings?.Proctoring.TypeWeights != null && settings.Proctoring.TypeWeights.TryGetValue(type, out var weight) && weight >= 0)
+                return weight;
+            return DefaultWarningWeights.TryGetValue(type, out var fallback) ? fallback : 1;
+        }
+
+        // Weighted 0-1 score for one answer; content, grammar and fluency are 0-10, visual confidence 0-100
+        private static double ScoreAnswer(EvaluationResult result, ScoringWeights weights)
+        {
+            var parts = new[]
+            {
+                (Weight: weights.Concept, Value: Math.Clamp(result.ContentScore, 0, 10) / 10.0),
+                (Weight: weights.Grammar, Value: Math.Clamp(result.GrammarScore, 0, 10) / 10.0),
+                (Weight: weights.Fluency, Value: Math.Clamp(result.FluencyScore, 0, 10) / 10.0),
+                (Weight: weights.Camera, Value: Math.Clamp(result.ConfidenceScore, 0, 100) / 100.0)
+            }.Where(p => p.Weight > 0).ToList();
+
+            var totalWeight = parts.Sum(p => p.Weight);
+            if (totalWeight == 0) return Math.Clamp(result.ContentScore, 0, 10) / 10.0;
+            return parts.Sum(p => p.Weight * p.Value) / totalWeight;
+        }
+
+        // Each strike costs an equal share of the cap
+        private static double ProctoringPenalty(List<WarningEvent> warnings, RoleSettings? settings)
+        {
+            if (settings?.Proctoring.IncludeInScore != true || warnings.Count == 0) return 0;
+            var maxWarnings = MaxWarnings(settings);
+            var strikes = warnings.Sum(w => WarningWeight(w.Type, settings));
+            return Math.Min(strikes, maxWarnings) * (MaxProctoringPenalty / maxWarnings);
+        }
+    }
+}
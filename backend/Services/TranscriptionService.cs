@@ -0,0 +1,92 @@
+using System;
+using System.IO;
+using System.Net.Http;
+using System.Net.Http.Headers;
+using System.Text.Json;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Configuration;
+
+namespace ReincrewBackend.Services
+{
+    public class TranscriptionException : Exception
+    {
+        public TranscriptionException(string message, Exception? inner = null) : base(message, inner) { }
+    }
+
+    /// <summary>
+    /// Forwards recorded answers to a Whisper-compatible /audio/transcriptions endpoint: OpenAI,
+    /// faster-whisper-server, whisper.cpp's server, LocalAI, etc. Configured by "Speech:Whisper".
+    /// </summary>
+    public class TranscriptionService
+    {
+        private readonly IHttpClientFactory _httpClientFactory;
+        private readonly IConfiguration _configuration;
+
+        public TranscriptionService(IHttpClientFactory httpClientFactory, IConfiguration configuration)
+        {
+            _httpClientFactory = httpClientFactory;
+            _configuration = configuration;
+        }
+
+        public bool IsConfigured => !string.IsNullOrWhiteSpace(_configuration["Speech:Whisper:BaseUrl"]);
+
+        public async Task<string> TranscribeAsync(Stream audio, string contentType, string? language, CancellationToken cancellationToken = default)
+        {
+            // Base URL is taken from server config only; never let a request choose where the server calls out to
+            var baseUrl = _configuration["Speech:Whisper:BaseUrl"];
+            if (string.IsNullOrWhiteSpace(baseUrl))
+                throw new TranscriptionException("Speech:Whisper:BaseUrl is not configured.");
+
+            if (!MediaTypeHeaderValue.TryParse(contentType, out var mediaType))
+                throw new TranscriptionException("Audio content type is not valid.");
+            var file = new StreamContent(audio);
+            file.Headers.ContentType = mediaType;
+            using var form = new MultipartFormDataContent
+            {
+                { file, "file", $"answer.{ExtensionOf(contentType)}" },
+                { new StringContent(_configuration["Speech:Whisper:Model"] ?? "whisper-1"), "model" },
+                { new StringContent("json"), "response_format" }
+            };
+            if (!string.IsNullOrWhiteSpace(language))
+                form.Add(new StringContent(language), "language");
+
+            using var request = new HttpRequestMessage(HttpMethod.Post, $"{baseUrl.TrimEnd('/')}/audio/transcriptions") { Content = form };
+            // Self-hosted servers usually run without auth
+            var apiKey = _configuration["Speech:Whisper:ApiKey"];
+            if (!string.IsNullOrWhiteSpace(apiKey))
+                request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", apiKey);
+
+            try
+            {
+                using var response = await _httpClientFactory.CreateClient("speech").SendAsync(request, cancellationToken);
+                response.EnsureSuccessStatusCode();
+                using var doc = JsonDocument.Parse(await response.Content.ReadAsStringAsync(cancellationToken));
+                return doc.RootElement.TryGetProperty("text", out var text) ? text.GetString() ?? string.Empty : string.Empty;
+            }
+            catch (HttpRequestException ex)
+            {
+                throw new TranscriptionException("Whisper server is unreachable.", ex);
+            }
+            // HttpClient reports its own timeout as a cancellation; an aborted request is left to propagate
+            catch (TaskCanceledException ex) when (!cancellationToken.IsCancellationRequested)
+            {
+                throw new TranscriptionException("Whisper server timed out.", ex);
+            }
+            catch (JsonException ex)
+            {
+                throw new TranscriptionException("Whisper server returned an unreadable response.", ex);
+            }
+        }
+
+        // Whisper servers pick the decoder from the file name
+        private static string ExtensionOf(string contentType) =>
+            contentType.Split(';')[0].Trim() switch
+            {
+                "audio/mp4" => "m4a",
+                "audio/ogg" => "ogg",
+                "audio/wav" => "wav",
+                _ => "webm"
+            };
+    }
+}
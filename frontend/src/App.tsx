@@ -13,8 +13,10 @@ import { ProfileSetup } from './components/ProfileSetup';
 import { CameraCheckScreen } from './components/CameraCheckScreen';
 import { InterviewScreen } from './components/InterviewScreen';
 import { SummaryScreen } from './components/SummaryScreen';
-import { Candidate, EvaluationResult, WarningEvent } from './types';
+import { Candidate, EvaluationResult, HeadPoseCalibration, InterviewRun, InterviewSession, WarningEvent } from './types';
 import { StorageService } from './services/storageService';
+import { computeSessionScore } from './services/scoring';
+import { findResumableInterview, getRunSessionId } from './services/apiService';
 import { useTheme } from './context/ThemeContext';
 
 enum AppView {
@@ -35,19 +37,37 @@ export default function App() {
   const [candidate, setCandidate] = useState<Candidate | null>(null);
   const [results, setResults] = useState<EvaluationResult[]>([]);
   const [sessionScore, setSessionScore] = useState<number>(0);
+  // Interrupted interview offered on the dashboard, and the one being resumed once chosen
+  const [resumable, setResumable] = useState<InterviewSession | null>(null);
+  const [resumeFrom, setResumeFrom] = useState<InterviewSession | null>(null);
+  // Head pose recorded at the camera check, used by the proctoring monitor during the interview
+  const [calibration, setCalibration] = useState<HeadPoseCalibration | null>(null);
+  // Code from an ?invite= link; the sign-up form is opened with it on arrival
+  const [inviteCode] = useState(() => new URLSearchParams(window.location.search).get('invite') || undefined);
   const { theme } = useTheme();
 
+  useEffect(() => {
+    if (inviteCode) setShowAuthModal('CANDIDATE_REGISTER');
+  }, [inviteCode]);
+
   const handleAuthSuccess = (role: 'ADMIN' | 'CANDIDATE', data: any) => {
     if (role === 'ADMIN') {
       setIsAdminAuthenticated(true);
       setView(AppView.ADMIN);
     } else {
-      setCandidate({
+      const loggedIn = {
           id: data.candidateId,
           name: data.name,
           email: data.email,
-          position: data.position
-      } as any);
+          position: data.position,
+          jobPostId: data.jobPostId,
+          accessId: data.accessId,
+          lockedOutAt: data.lockedOutAt || undefined
+      } as any;
+      // Drop the redeemed code so a reload doesn't offer the invite again
+      if (inviteCode) window.history.replaceState(null, '', window.location.pathname);
+      setCandidate(loggedIn);
+      findResumableInterview(loggedIn).then(setResumable);
       setIsAuthenticated(true);
       setView(AppView.AUTHENTICATED);
       setSidebarView('DASHBOARD');
@@ -55,10 +75,32 @@ export default function App() {
     setShowAuthModal(null);
   };
 
-  const handleInterviewComplete = (finalResults: EvaluationResult[], warnings: WarningEvent[], status: 'COMPLETED' | 'TERMINATED') => {
+  const handleInterviewComplete = (finalResults: EvaluationResult[], warnings: WarningEvent[], status: 'COMPLETED' | 'TERMINATED', run: InterviewRun) => {
     setResults(finalResults);
-    // ... logic for score calculation ...
-    setSessionScore(85); // Placeholder for now
+    const { overallScore } = computeSessionScore(finalResults, warnings, run.job?.questions, run.job?.settings);
+    setSessionScore(overallScore);
+
+    if (candidate) {
+      // The backend locks the account too; this keeps the dashboard in step until the next login
+      if (status === 'TERMINATED') setCandidate({ ...candidate, lockedOutAt: new Date().toISOString() });
+      StorageService.saveSession({
+        // Reuse the server session id so the backend finalises it instead of creating a second one
+        id: getRunSessionId(run),
+        candidate,
+        date: run.startedAt,
+        status,
+        overallScore,
+        results: finalResults,
+        warnings,
+        durationSeconds: Math.round((Date.now() - new Date(run.startedAt).getTime()) / 1000),
+        jobPostId: run.job?.id,
+        jobVersion: run.job?.version,
+        identity: run.identity
+      });
+      StorageService.clearCheckpoint(candidate.id);
+    }
+    setResumable(null);
+    setResumeFrom(null);
     setInterviewStep('SUMMARY');
   };
 
@@ -103,13 +145,25 @@ export default function App() {
               activeView={sidebarView}
               onViewChange={(v) => {
                 setSidebarView(v);
-                if (v === 'INTERVIEW_FLOW') setInterviewStep('PROFILE_SETUP');
+                if (v === 'INTERVIEW_FLOW') {
+                  setResumeFrom(null);
+                  setInterviewStep('PROFILE_SETUP');
+                }
               }}
               onLogout={() => handleRestart(true)}
               userName={candidate?.name}
             >
               <div className="h-full w-full overflow-y-auto">
-                {sidebarView === 'DASHBOARD' && <UserDashboard candidateId={candidate?.id as any} />}
+                {sidebarView === 'DASHBOARD' && <UserDashboard
+                    candidateId={candidate?.id as any}
+                    resumable={resumable}
+                    lockedOut={!!candidate?.lockedOutAt}
+                    onResume={() => {
+                      setResumeFrom(resumable);
+                      setSidebarView('INTERVIEW_FLOW');
+                      setInterviewStep('CAMERA_CHECK');
+                    }}
+                  />}
                 {sidebarView === 'REPORTS' && <ReportsScreen candidateId={candidate?.id as any} />}
                 {sidebarView === 'ANALYTICS' && <AnalyticsScreen candidateId={candidate?.id as any} />}
                 {sidebarView === 'INTERVIEW_FLOW' && (
@@ -121,10 +175,10 @@ export default function App() {
                       />
                     )}
                     {interviewStep === 'CAMERA_CHECK' && (
-                      <CameraCheckScreen onComplete={() => setInterviewStep('INTERVIEW')} />
+                      <CameraCheckScreen onComplete={(c) => { setCalibration(c); setInterviewStep('INTERVIEW'); }} />
                     )}
                     {interviewStep === 'INTERVIEW' && candidate && (
-                      <InterviewScreen candidate={candidate} onComplete={handleInterviewComplete} />
+                      <InterviewScreen candidate={candidate} resumeFrom={resumeFrom} calibration={calibration} onComplete={handleInterviewComplete} />
                     )}
                     {interviewStep === 'SUMMARY' && candidate && (
                       <SummaryScreen
@@ -161,6 +215,7 @@ export default function App() {
             initialMode={showAuthModal}
             onClose={() => setShowAuthModal(null)}
             onSuccess={handleAuthSuccess}
+            inviteCode={inviteCode}
           />
         )}
       </AnimatePresence>
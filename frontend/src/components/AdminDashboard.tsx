@@ -1,10 +1,28 @@
 import * as React from 'react';
 const { useState, useEffect } = React;
 import { StorageService } from '../services/storageService';
-import { InterviewSession, JobPost, Question, RoleSettings, AdminConfig } from '../types';
+import { DEFAULT_ADAPTIVE } from '../services/questionSelector';
+import { DEFAULT_RESUME } from '../services/resumePolicy';
+import { DEFAULT_RECORDING } from '../services/clipService';
+import { exportQuestions, ImportedQuestion, QuestionBankFormat } from '../services/questionBank';
+import { QuestionImportModal } from './QuestionImportModal';
+import { AnswerDraft, draftAnswer } from '../services/authoringService';
+import { AiDraftPanel } from './AiDraftPanel';
+import { QuestionSetGeneratorModal } from './QuestionSetGeneratorModal';
+import { InviteManagerModal } from './InviteManagerModal';
+import { LockoutReviewQueue } from './LockoutReviewQueue';
+import { EvidenceFilmstrip } from './EvidenceFilmstrip';
+import { SuspicionChart } from './SuspicionChart';
+import { IdentityMatchCard } from './IdentityMatchCard';
+import { AnswerClipPlayer } from './AnswerClipPlayer';
+import { QuestionTranslationsEditor } from './QuestionTranslationsEditor';
+import { languageOf, LANGUAGES } from '../services/languages';
+import { getWarningLabel, getWarningSeverity, getWarningWeight, SEVERITY_STYLES, WARNING_CATALOG, WARNING_TYPES } from '../services/warningPolicy';
+import { InterviewSession, JobPost, JobPostVersion, Question, RoleSettings, AdminConfig } from '../types';
 import {
     Users, Settings, LogOut, Search, Shield, Briefcase, Pencil, Plus, Save, Trash2,
-    SlidersHorizontal, Activity, ToggleLeft, ToggleRight, Info, AlertTriangle, CheckCircle, XCircle, Eye, Clock, Mail, Phone, CreditCard
+    SlidersHorizontal, Activity, ToggleLeft, ToggleRight, Info, AlertTriangle, CheckCircle, XCircle, Eye, Clock, Mail, Phone, CreditCard,
+    Upload, Download, Sparkles, Loader2, Ticket, ShieldAlert
 } from 'lucide-react';
 
 interface AdminDashboardProps {
@@ -19,15 +37,22 @@ const DEFAULT_SETTINGS: RoleSettings = {
 };
 
 export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
-    const [activeTab, setActiveTab] = useState<'candidates' | 'jobs' | 'config'>('candidates');
+    const [activeTab, setActiveTab] = useState<'candidates' | 'jobs' | 'reviews' | 'config'>('candidates');
     const [sessions, setSessions] = useState<InterviewSession[]>([]);
     const [jobs, setJobs] = useState<JobPost[]>([]);
     const [config, setConfig] = useState<AdminConfig>(StorageService.getConfig());
 
     const [selectedSession, setSelectedSession] = useState<InterviewSession | null>(null);
+    // Job as it was when the selected session ran, for showing the reference answers it was graded against
+    const [sessionJobVersion, setSessionJobVersion] = useState<JobPostVersion | null>(null);
     const [selectedJob, setSelectedJob] = useState<JobPost | null>(null);
     const [editingJob, setEditingJob] = useState<JobPost | null>(null);
     const [jobEditTab, setJobEditTab] = useState<'questions' | 'settings'>('questions');
+    const [showImport, setShowImport] = useState(false);
+    const [showGenerator, setShowGenerator] = useState(false);
+    const [showInvites, setShowInvites] = useState(false);
+    const [drafts, setDrafts] = useState<Record<number, AnswerDraft>>({});
+    const [draftingId, setDraftingId] = useState<number | null>(null);
 
     const [searchTerm, setSearchTerm] = useState('');
 
@@ -37,16 +62,28 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
             setSessions(data);
         };
         fetchData();
-        setJobs(StorageService.getJobs());
+        StorageService.getJobs().then(setJobs);
     }, []);
 
-    const handleSaveJob = () => {
+    useEffect(() => {
+        setSessionJobVersion(null);
+        if (!selectedSession?.jobPostId || !selectedSession.jobVersion) return;
+        let cancelled = false;
+        StorageService.getJobVersion(selectedSession.jobPostId, selectedSession.jobVersion)
+            .then(version => { if (!cancelled && version) setSessionJobVersion(version); });
+        return () => { cancelled = true; };
+    }, [selectedSession]);
+
+    const handleSaveJob = async () => {
         if (editingJob) {
-            const updatedJobs = jobs.map(j => j.id === editingJob.id ? editingJob : j);
-            setJobs(updatedJobs);
-            StorageService.saveJobs(updatedJobs);
-            setSelectedJob(editingJob);
-            setEditingJob(null);
+            try {
+                const saved = await StorageService.updateJob(editingJob);
+                setJobs(jobs.map(j => j.id === saved.id ? saved : j));
+                setSelectedJob(saved);
+                setEditingJob(null);
+            } catch (err: any) {
+                alert(err.message);
+            }
         }
     };
 
@@ -56,31 +93,45 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
         StorageService.saveConfig(newConfig);
     };
 
-    const handleCreateJob = () => {
-        const newJob: JobPost = {
-            id: `job-${Date.now()}`,
-            title: 'New Role Title',
-            description: 'Role description...',
-            status: 'ACTIVE',
-            settings: { ...DEFAULT_SETTINGS },
-            questions: []
-        };
-        const updatedJobs = [...jobs, newJob];
-        setJobs(updatedJobs);
-        StorageService.saveJobs(updatedJobs);
-        setEditingJob(newJob);
-        setJobEditTab('settings');
+    const handleCreateJob = async () => {
+        try {
+            const newJob = await StorageService.createJob({
+                title: 'New Role Title',
+                description: 'Role description...',
+                status: 'ACTIVE',
+                settings: { ...DEFAULT_SETTINGS },
+                questions: []
+            });
+            setJobs([...jobs, newJob]);
+            setEditingJob(newJob);
+            setJobEditTab('settings');
+        } catch (err: any) {
+            alert(err.message);
+        }
     };
 
-    const handleToggleStatus = (jobId: string, e: React.MouseEvent) => {
+    const handleToggleStatus = async (jobId: string, e: React.MouseEvent) => {
         e.stopPropagation();
         const job = jobs.find(j => j.id === jobId);
         if (job) {
-            const newStatus = job.status === 'ACTIVE' ? 'INACTIVE' : 'ACTIVE';
-            const updatedJobs = jobs.map(j => j.id === jobId ? { ...j, status: newStatus as 'ACTIVE' | 'INACTIVE' } : j);
-            setJobs(updatedJobs);
-            StorageService.saveJobs(updatedJobs);
-            if (selectedJob?.id === jobId) setSelectedJob({ ...selectedJob, status: newStatus as 'ACTIVE' | 'INACTIVE' });
+            try {
+                const saved = await StorageService.updateJob({ ...job, status: job.status === 'ACTIVE' ? 'INACTIVE' : 'ACTIVE' });
+                setJobs(jobs.map(j => j.id === jobId ? saved : j));
+                if (selectedJob?.id === jobId) setSelectedJob(saved);
+            } catch (err: any) {
+                alert(err.message);
+            }
+        }
+    };
+
+    const handleDeleteJob = async (job: JobPost) => {
+        if (!confirm(`Delete the role "${job.title}"? This cannot be undone.`)) return;
+        try {
+            await StorageService.deleteJob(job.id);
+            setJobs(jobs.filter(j => j.id !== job.id));
+            setSelectedJob(null);
+        } catch (err: any) {
+            alert(err.message);
         }
     };
 
@@ -99,13 +150,31 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
             newSettings.difficulty = 'Medium';
         } else if (preset === 'Strict') {
             newSettings.weights = { concept: 60, grammar: 25, fluency: 10, camera: 5 };
-            newSettings.proctoring = { maxWarnings: 2, sensitivity: 'High', includeInScore: true };
+            newSettings.proctoring = { maxWarnings: 2, sensitivity: 'High', includeInScore: true, objectDetection: true, audioMonitoring: true };
             newSettings.difficulty = 'Hard';
         }
 
         setEditingJob({ ...editingJob, settings: newSettings });
     };
 
+    const handleUpdateAdaptive = (field: keyof typeof DEFAULT_ADAPTIVE, value: any) => {
+        if (!editingJob) return;
+        const adaptive = { ...DEFAULT_ADAPTIVE, ...editingJob.settings.adaptive, [field]: value };
+        setEditingJob({ ...editingJob, settings: { ...editingJob.settings, adaptive } });
+    };
+
+    const handleUpdateRecording = (field: keyof typeof DEFAULT_RECORDING, value: any) => {
+        if (!editingJob) return;
+        const recording = { ...DEFAULT_RECORDING, ...editingJob.settings.recording, [field]: value };
+        setEditingJob({ ...editingJob, settings: { ...editingJob.settings, recording } });
+    };
+
+    const handleUpdateResume = (field: keyof typeof DEFAULT_RESUME, value: any) => {
+        if (!editingJob) return;
+        const resume = { ...DEFAULT_RESUME, ...editingJob.settings.resume, [field]: value };
+        setEditingJob({ ...editingJob, settings: { ...editingJob.settings, resume } });
+    };
+
     const handleUpdateQuestion = (qId: number, field: keyof Question, value: any) => {
         if (editingJob) {
             const updatedQuestions = editingJob.questions.map(q =>
@@ -182,6 +251,63 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
         }
     };
 
+    const handleImportQuestions = (imported: ImportedQuestion[]) => {
+        if (editingJob) {
+            const baseId = Date.now();
+            setEditingJob({
+                ...editingJob,
+                questions: [...editingJob.questions, ...imported.map((q, i) => ({ ...q, id: baseId + i }))]
+            });
+        }
+        setShowImport(false);
+        setShowGenerator(false);
+    };
+
+    const handleDraftWithAI = async (question: Question) => {
+        if (!editingJob) return;
+        setDraftingId(question.id);
+        try {
+            const draft = await draftAnswer(question, editingJob);
+            setDrafts(prev => ({ ...prev, [question.id]: draft }));
+        } catch (e: any) {
+            alert(`AI drafting failed: ${e.message}`);
+        } finally {
+            setDraftingId(null);
+        }
+    };
+
+    const handleApplyDraft = (qId: number, referenceAnswer: string | null, keyPoints: string[]) => {
+        if (editingJob) {
+            const updatedQuestions = editingJob.questions.map(q => {
+                if (q.id !== qId) return q;
+                const existing = (q.keyPoints || []).filter(k => k.trim());
+                const added = keyPoints.filter(k => !existing.some(e => e.toLowerCase() === k.toLowerCase()));
+                return { ...q, referenceAnswer: referenceAnswer ?? q.referenceAnswer, keyPoints: [...existing, ...added] };
+            });
+            setEditingJob({ ...editingJob, questions: updatedQuestions });
+        }
+        handleDismissDraft(qId);
+    };
+
+    const handleDismissDraft = (qId: number) => {
+        setDrafts(prev => {
+            const { [qId]: _, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    const handleExportQuestions = (format: QuestionBankFormat) => {
+        if (!editingJob) return;
+        const mime = format === 'json' ? 'application/json' : format === 'csv' ? 'text/csv' : 'text/markdown';
+        const blob = new Blob([exportQuestions(editingJob.questions, format)], { type: mime });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${editingJob.title.trim().replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'questions'}.${format}`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
     const filteredSessions = sessions.filter(s =>
         s.candidate.name.toLowerCase().includes(searchTerm.toLowerCase())
     );
@@ -209,6 +335,10 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                         className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all ${activeTab === 'jobs' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-500/20' : 'hover:bg-slate-100 dark:hover:bg-white/5 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}>
                         <Briefcase size={20} /> <span className="font-bold tracking-tight">Role Architect</span>
                     </button>
+                    <button onClick={() => { setActiveTab('reviews'); }}
+                        className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all ${activeTab === 'reviews' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-500/20' : 'hover:bg-slate-100 dark:hover:bg-white/5 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}>
+                        <ShieldAlert size={20} /> <span className="font-bold tracking-tight">Lockout Reviews</span>
+                    </button>
                     <button onClick={() => { setActiveTab('config'); }}
                         className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all ${activeTab === 'config' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-500/20' : 'hover:bg-slate-100 dark:hover:bg-white/5 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}>
                         <Settings size={20} /> <span className="font-bold tracking-tight">Neural Config</span>
@@ -239,6 +369,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                     <h2 className="text-2xl font-black text-slate-900 dark:text-white tracking-tighter">
                         {activeTab === 'candidates' && (selectedSession ? `Report: ${selectedSession.candidate.name}` : 'Node Activity')}
                         {activeTab === 'jobs' && (editingJob ? `Design: ${editingJob.title}` : 'Role Management')}
+                        {activeTab === 'reviews' && 'Lockout Reviews'}
                         {activeTab === 'config' && 'Global Parameters'}
                     </h2>
 
@@ -390,6 +521,12 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                                 <Clock size={14} className="text-slate-400" />
                                                 <span>{new Date(selectedSession.date).toLocaleString()}</span>
                                             </div>
+                                            {selectedSession.jobVersion && (
+                                                <div className="flex items-center gap-2 text-sm text-slate-600">
+                                                    <Briefcase size={14} className="text-slate-400" />
+                                                    <span>Job version {selectedSession.jobVersion}</span>
+                                                </div>
+                                            )}
                                             <div className="flex items-center gap-2 text-sm">
                                                 {selectedSession.status === 'COMPLETED' ? (
                                                     <><CheckCircle size={14} className="text-emerald-500" /><span className="text-emerald-600 font-bold">Completed</span></>
@@ -435,6 +572,8 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                 })()}
                             </div>
 
+                            {selectedSession.identity && <IdentityMatchCard identity={selectedSession.identity} />}
+
                             {/* Warnings Log */}
                             {selectedSession.warnings.length > 0 && (
                                 <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
@@ -443,20 +582,25 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                     </div>
                                     <div className="divide-y divide-slate-100">
                                         {selectedSession.warnings.map((w, i) => (
-                                            <div key={i} className="px-6 py-3 flex items-center gap-4 text-sm">
-                                                <span className="text-[10px] font-mono text-slate-400 whitespace-nowrap">{new Date(w.timestamp).toLocaleTimeString()}</span>
-                                                <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${w.type === 'TAB_SWITCH' ? 'bg-amber-50 text-amber-600' :
-                                                    w.type === 'FULLSCREEN_EXIT' ? 'bg-red-50 text-red-600' :
-                                                        w.type === 'GAZE' ? 'bg-indigo-50 text-indigo-600' :
-                                                            'bg-slate-100 text-slate-500'
-                                                    }`}>{w.type.replace('_', ' ')}</span>
-                                                <span className="text-slate-600">{w.message}</span>
+                                            <div key={i} className="px-6 py-3 space-y-2">
+                                                <div className="flex items-center gap-4 text-sm">
+                                                    <span className="text-[10px] font-mono text-slate-400 whitespace-nowrap">{new Date(w.timestamp).toLocaleTimeString()}</span>
+                                                    <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${SEVERITY_STYLES[getWarningSeverity(w)]}`} title={`${getWarningSeverity(w)} severity`}>{getWarningLabel(w.type)}</span>
+                                                    <span className="text-slate-600">{w.message}</span>
+                                                </div>
+                                                {w.evidence && w.evidence.length > 0 && (
+                                                    <div className="pl-20">
+                                                        <EvidenceFilmstrip frames={w.evidence} warningAt={w.timestamp} />
+                                                    </div>
+                                                )}
                                             </div>
                                         ))}
                                     </div>
                                 </div>
                             )}
 
+                            <AnswerClipPlayer key={selectedSession.id} sessionId={selectedSession.id} results={selectedSession.results} />
+
                             {/* Question-by-Question Analysis */}
                             <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
                                 <div className="p-4 bg-slate-50 border-b border-slate-200 font-bold text-slate-700 flex items-center gap-2">
@@ -470,16 +614,37 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                                     <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest">Question {i + 1}</span>
                                                     <h4 className="font-bold text-slate-800 mt-1">{r.questionText}</h4>
                                                 </div>
-                                                <span className={`text-xs font-bold px-3 py-1.5 rounded-full border whitespace-nowrap ${r.verdict === 'Pass' ? 'bg-emerald-50 text-emerald-700 border-emerald-200' :
-                                                    r.verdict === 'Fail' ? 'bg-red-50 text-red-700 border-red-200' :
-                                                        'bg-amber-50 text-amber-700 border-amber-200'
-                                                    }`}>{r.verdict}</span>
+                                                <div className="flex items-center gap-2">
+                                                    {r.inputMode === 'typed' && (
+                                                        <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full bg-sky-50 text-sky-700 border border-sky-200 whitespace-nowrap" title="Typed instead of spoken; fluency was graded as writing">Typed</span>
+                                                    )}
+                                                    {r.source === 'offline' && (
+                                                        <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full bg-slate-100 text-slate-500 border border-slate-200 whitespace-nowrap" title="Scored by the local rubric, not the AI model">Offline Graded</span>
+                                                    )}
+                                                    <span className={`text-xs font-bold px-3 py-1.5 rounded-full border whitespace-nowrap ${r.verdict === 'Pass' ? 'bg-emerald-50 text-emerald-700 border-emerald-200' :
+                                                        r.verdict === 'Fail' ? 'bg-red-50 text-red-700 border-red-200' :
+                                                            'bg-amber-50 text-amber-700 border-amber-200'
+                                                        }`}>{r.verdict}</span>
+                                                </div>
                                             </div>
 
-                                            {/* Candidate's Answer */}
-                                            <div className="bg-slate-50 dark:bg-slate-800/50 p-4 rounded-xl border border-slate-100 dark:border-slate-800 mb-4 transition-colors">
-                                                <p className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-1 transition-colors">Candidate's Answer</p>
-                                                <p className="text-sm text-slate-600 dark:text-slate-400 italic leading-relaxed transition-colors">"{r.userAnswer}"</p>
+                                            {/* Candidate's Answer, with the camera timeline beside it */}
+                                            <div className={`mb-4 ${r.suspicionTimeline ? 'grid grid-cols-1 lg:grid-cols-5 gap-4' : ''}`}>
+                                                <div className="bg-slate-50 dark:bg-slate-800/50 p-4 rounded-xl border border-slate-100 dark:border-slate-800 transition-colors lg:col-span-3">
+                                                    <p className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-1 transition-colors">Candidate's Answer</p>
+                                                    <p className="text-sm text-slate-600 dark:text-slate-400 italic leading-relaxed transition-colors">"{r.userAnswer}"</p>
+                                                    {r.followUps?.map((f, fi) => (
+                                                        <div key={fi} className="mt-3 pl-3 border-l-2 border-indigo-200 dark:border-indigo-800">
+                                                            <p className="text-[10px] font-bold text-indigo-500 uppercase tracking-widest mb-1">Follow-Up {fi + 1}: <span className="normal-case tracking-normal font-medium">{f.question}</span></p>
+                                                            <p className="text-sm text-slate-600 dark:text-slate-400 italic leading-relaxed transition-colors">"{f.answer}"</p>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                                {r.suspicionTimeline && (
+                                                    <div className="lg:col-span-2">
+                                                        <SuspicionChart timeline={r.suspicionTimeline} />
+                                                    </div>
+                                                )}
                                             </div>
 
                                             {/* Scores grid */}
@@ -524,8 +689,26 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                                 </div>
                                             )}
 
+                                            {(() => {
+                                                const asked = sessionJobVersion?.questions.find(q => q.id === r.questionId);
+                                                if (!asked) return null;
+                                                return (
+                                                    <div className="mb-4 p-4 rounded-xl border border-slate-100 dark:border-slate-800 transition-colors">
+                                                        <p className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-1 transition-colors">Reference Answer (v{sessionJobVersion!.version})</p>
+                                                        <p className="text-sm text-slate-600 dark:text-slate-400 leading-relaxed transition-colors">{asked.referenceAnswer}</p>
+                                                        {asked.keyPoints && asked.keyPoints.length > 0 && (
+                                                            <div className="flex flex-wrap gap-1.5 mt-3">
+                                                                {asked.keyPoints.map((k, j) => (
+                                                                    <span key={j} className="px-2 py-1 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded text-[10px] border border-slate-200 dark:border-slate-700">{k}</span>
+                                                                ))}
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                );
+                                            })()}
+
                                             <p className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed p-3 bg-indigo-50/50 dark:bg-indigo-500/5 rounded-xl border border-indigo-100 dark:border-indigo-500/10 transition-colors">
-                                                <span className="font-bold text-indigo-700 dark:text-indigo-400">AI Feedback:</span> {r.feedback}
+                                                <span className="font-bold text-indigo-700 dark:text-indigo-400">{r.source === 'offline' ? 'Rubric Feedback:' : 'AI Feedback:'}</span> {r.feedback}
                                             </p>
                                         </div>
                                     ))}
@@ -592,12 +775,26 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                     </div>
                                     <p className="text-slate-500 max-w-2xl">{selectedJob.description}</p>
                                 </div>
-                                <button
-                                    onClick={() => { setEditingJob(selectedJob); setJobEditTab('questions'); }}
-                                    className="bg-indigo-600 text-white px-6 py-2.5 rounded-lg text-sm font-bold hover:bg-indigo-700 flex items-center gap-2 shadow-sm"
-                                >
-                                    <Pencil size={16} /> Edit Role
-                                </button>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => handleDeleteJob(selectedJob)}
+                                        className="bg-white border border-slate-200 text-slate-700 px-6 py-2.5 rounded-lg text-sm font-bold hover:border-red-400 hover:text-red-600 flex items-center gap-2 shadow-sm"
+                                    >
+                                        <Trash2 size={16} /> Delete
+                                    </button>
+                                    <button
+                                        onClick={() => setShowInvites(true)}
+                                        className="bg-white border border-slate-200 text-slate-700 px-6 py-2.5 rounded-lg text-sm font-bold hover:border-indigo-400 hover:text-indigo-600 flex items-center gap-2 shadow-sm"
+                                    >
+                                        <Ticket size={16} /> Invites
+                                    </button>
+                                    <button
+                                        onClick={() => { setEditingJob(selectedJob); setJobEditTab('questions'); }}
+                                        className="bg-indigo-600 text-white px-6 py-2.5 rounded-lg text-sm font-bold hover:bg-indigo-700 flex items-center gap-2 shadow-sm"
+                                    >
+                                        <Pencil size={16} /> Edit Role
+                                    </button>
+                                </div>
                             </div>
                             <div className="p-8 space-y-6">
                                 <div className="flex items-center gap-2 text-slate-400 dark:text-slate-600 uppercase text-xs font-bold tracking-widest mb-4 transition-colors">
@@ -624,6 +821,12 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                     </div>
                                 ))}
                             </div>
+                            {showInvites && (
+                                <InviteManagerModal
+                                    job={selectedJob}
+                                    onClose={() => setShowInvites(false)}
+                                />
+                            )}
                         </div>
                     )}
 
@@ -707,6 +910,22 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                             ))}
                                         </div>
 
+                                        <div className="mb-8 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-100 dark:border-slate-800 transition-colors flex flex-col md:flex-row md:items-center justify-between gap-4">
+                                            <div>
+                                                <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest mb-1 transition-colors">Interview Language</label>
+                                                <span className="text-[10px] text-slate-400 font-medium">
+                                                    Questions are read, transcribed and graded in this language. {editingJob.questions.filter(q => q.translations?.[languageOf(editingJob.settings)]).length} of {editingJob.questions.length} questions have a translation; the rest are asked as written.
+                                                </span>
+                                            </div>
+                                            <select
+                                                value={languageOf(editingJob.settings)}
+                                                onChange={(e) => setEditingJob({ ...editingJob, settings: { ...editingJob.settings, language: e.target.value } })}
+                                                className="p-2 bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-500 font-bold text-sm shrink-0"
+                                            >
+                                                {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                                            </select>
+                                        </div>
+
                                         <div className="mb-8 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-100 dark:border-slate-800 transition-colors">
                                             <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest mb-3 transition-colors">Intelligence Baseline</label>
                                             <div className="flex flex-wrap gap-2">
@@ -722,6 +941,46 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                             </div>
                                         </div>
 
+                                        <div className="mb-8 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-100 dark:border-slate-800 transition-colors">
+                                            <div className="flex items-center justify-between mb-3">
+                                                <div>
+                                                    <span className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest transition-colors">Adaptive Questioning</span>
+                                                    <span className="text-[10px] text-slate-400 dark:text-slate-500 font-medium transition-colors">A Fail steps down a difficulty; a run of Passes steps up.</span>
+                                                </div>
+                                                <button
+                                                    onClick={() => handleUpdateAdaptive('enabled', !editingJob.settings.adaptive?.enabled)}
+                                                    className={editingJob.settings.adaptive?.enabled ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-300 dark:text-slate-600'}
+                                                >
+                                                    {editingJob.settings.adaptive?.enabled ? <ToggleRight size={32} /> : <ToggleLeft size={32} />}
+                                                </button>
+                                            </div>
+                                            {editingJob.settings.adaptive?.enabled && (
+                                                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 animate-fade-in">
+                                                    {[
+                                                        { key: 'escalateAfterPasses', label: 'Escalate After', suffix: 'passes', min: 1, max: 10 },
+                                                        { key: 'maxQuestions', label: 'Stop After', suffix: 'questions (0 = all)', min: 0, max: editingJob.questions.length },
+                                                        { key: 'stopConfidence', label: 'Stop At Confidence', suffix: '% (0 = off)', min: 0, max: 99 }
+                                                    ].map((f) => (
+                                                        <div key={f.key}>
+                                                            <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">{f.label}</label>
+                                                            <div className="flex items-center gap-2">
+                                                                <input
+                                                                    type="number" min={f.min} max={f.max}
+                                                                    value={editingJob.settings.adaptive?.[f.key as keyof typeof DEFAULT_ADAPTIVE] as number}
+                                                                    onChange={(e) => {
+                                                                        const val = Math.max(f.min, Math.min(f.max, parseInt(e.target.value) || 0));
+                                                                        handleUpdateAdaptive(f.key as keyof typeof DEFAULT_ADAPTIVE, val);
+                                                                    }}
+                                                                    className="w-20 p-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg outline-none focus:border-indigo-500 font-bold text-sm dark:text-white"
+                                                                />
+                                                                <span className="text-[10px] text-slate-400 font-medium">{f.suffix}</span>
+                                                            </div>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+
                                         <h4 className="font-bold text-slate-700 dark:text-slate-300 text-xs mb-6 uppercase tracking-widest flex items-center gap-2 transition-colors">
                                             <Activity size={14} className="text-slate-400 dark:text-slate-600" /> Scoring Components (%)
                                         </h4>
@@ -775,7 +1034,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                                             }}
                                                             className="w-20 p-2.5 bg-slate-50 border border-slate-200 rounded-lg outline-none focus:border-indigo-500 font-bold"
                                                         />
-                                                        <span className="text-xs text-slate-400 font-medium">Violations before session self-terminates.</span>
+                                                        <span className="text-xs text-slate-400 font-medium">Strikes before session self-terminates.</span>
                                                     </div>
                                                 </div>
                                                 <div className="flex items-center gap-3 p-4 bg-slate-50 rounded-xl border border-slate-100">
@@ -794,6 +1053,38 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                                         <span className="text-[10px] text-slate-400 font-medium">Subtract score for cheating behaviors.</span>
                                                     </div>
                                                 </div>
+                                                <div className="flex items-center gap-3 p-4 bg-slate-50 rounded-xl border border-slate-100">
+                                                    <div className="relative flex items-center">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={!!editingJob.settings.proctoring.objectDetection}
+                                                            onChange={(e) => {
+                                                                setEditingJob({ ...editingJob, settings: { ...editingJob.settings, proctoring: { ...editingJob.settings.proctoring, objectDetection: e.target.checked }, preset: 'Custom' } });
+                                                            }}
+                                                            className="w-5 h-5 accent-indigo-600 rounded cursor-pointer"
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <span className="text-sm font-bold text-slate-700 block">Object Detection</span>
+                                                        <span className="text-[10px] text-slate-400 font-medium">Flag phones, books and second screens in frame.</span>
+                                                    </div>
+                                                </div>
+                                                <div className="flex items-center gap-3 p-4 bg-slate-50 rounded-xl border border-slate-100">
+                                                    <div className="relative flex items-center">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={!!editingJob.settings.proctoring.audioMonitoring}
+                                                            onChange={(e) => {
+                                                                setEditingJob({ ...editingJob, settings: { ...editingJob.settings, proctoring: { ...editingJob.settings.proctoring, audioMonitoring: e.target.checked }, preset: 'Custom' } });
+                                                            }}
+                                                            className="w-5 h-5 accent-indigo-600 rounded cursor-pointer"
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <span className="text-sm font-bold text-slate-700 block">Audio Monitoring</span>
+                                                        <span className="text-[10px] text-slate-400 font-medium">Flag other voices and speech without lip movement.</span>
+                                                    </div>
+                                                </div>
                                             </div>
                                             <div>
                                                 <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">Detection Sensitivity</label>
@@ -812,8 +1103,118 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                                     <span className="font-bold text-red-400 uppercase tracking-tighter mr-1">Note:</span>
                                                     High sensitivity may result in false positives if the candidate is in a poorly lit environment or has reflective eyewear.
                                                 </p>
+
+                                                <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-2 mt-6">Identity Check</label>
+                                                <div className="grid grid-cols-3 gap-2">
+                                                    {([
+                                                        { value: undefined, label: 'Off' },
+                                                        { value: 'SELFIE', label: 'Selfie' },
+                                                        { value: 'SELFIE_AND_ID', label: 'Selfie + ID' }
+                                                    ] as const).map(o => (
+                                                        <button
+                                                            key={o.label}
+                                                            onClick={() => setEditingJob({ ...editingJob, settings: { ...editingJob.settings, proctoring: { ...editingJob.settings.proctoring, identityCheck: o.value }, preset: 'Custom' } })}
+                                                            className={`py-2 rounded-lg text-xs font-bold border transition-all ${editingJob.settings.proctoring.identityCheck === o.value ? 'bg-red-500 text-white border-red-500 shadow-sm' : 'bg-white text-slate-500 border-slate-200 hover:border-red-200'}`}
+                                                        >
+                                                            {o.label}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                                <p className="mt-3 text-[10px] text-slate-400 leading-relaxed">
+                                                    Periodically matches the face on camera against the photos taken at profile setup.
+                                                </p>
+                                            </div>
+                                        </div>
+
+                                        <div className="mt-8">
+                                            <label className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-1">Strikes Per Warning</label>
+                                            <p className="text-[10px] text-slate-400 font-medium mb-3">How much each kind of warning counts towards the tolerance and the score deduction. 0 logs it without counting.</p>
+                                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                                {WARNING_TYPES.map(type => (
+                                                    <div key={type} className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+                                                        <div className="flex items-center justify-between gap-2 mb-2">
+                                                            <span className="text-xs font-bold text-slate-700">{WARNING_CATALOG[type].label}</span>
+                                                            <span className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded ${SEVERITY_STYLES[WARNING_CATALOG[type].severity]}`}>{WARNING_CATALOG[type].severity}</span>
+                                                        </div>
+                                                        <input
+                                                            type="number" min="0" max="10" step="0.5"
+                                                            value={getWarningWeight(type, editingJob.settings)}
+                                                            onChange={(e) => {
+                                                                const val = Math.max(0, Math.min(10, parseFloat(e.target.value) || 0));
+                                                                const typeWeights = { ...editingJob.settings.proctoring.typeWeights, [type]: val };
+                                                                setEditingJob({ ...editingJob, settings: { ...editingJob.settings, proctoring: { ...editingJob.settings.proctoring, typeWeights }, preset: 'Custom' } });
+                                                            }}
+                                                            className="w-full p-2 bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-500 font-bold text-sm"
+                                                        />
+                                                    </div>
+                                                ))}
                                             </div>
                                         </div>
+
+                                        <div className="mt-8 p-4 bg-slate-50 rounded-xl border border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                                            <div>
+                                                <span className="text-sm font-bold text-slate-700 block">Allow Resuming</span>
+                                                <span className="text-[10px] text-slate-400 font-medium">Candidates can continue an interview interrupted by a crash or reload, keeping their answers and strikes.</span>
+                                            </div>
+                                            <div className="flex items-center gap-4 shrink-0">
+                                                {(editingJob.settings.resume ?? DEFAULT_RESUME).enabled && (
+                                                    <div className="flex items-center gap-2">
+                                                        <input
+                                                            type="number" min="0" max="1440"
+                                                            value={(editingJob.settings.resume ?? DEFAULT_RESUME).expiresAfterMinutes}
+                                                            onChange={(e) => handleUpdateResume('expiresAfterMinutes', Math.max(0, Math.min(1440, parseInt(e.target.value) || 0)))}
+                                                            className="w-20 p-2 bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-500 font-bold text-sm"
+                                                        />
+                                                        <span className="text-[10px] text-slate-400 font-medium">min window (0 = no limit)</span>
+                                                    </div>
+                                                )}
+                                                <button
+                                                    onClick={() => handleUpdateResume('enabled', !(editingJob.settings.resume ?? DEFAULT_RESUME).enabled)}
+                                                    className={(editingJob.settings.resume ?? DEFAULT_RESUME).enabled ? 'text-indigo-600' : 'text-slate-300'}
+                                                >
+                                                    {(editingJob.settings.resume ?? DEFAULT_RESUME).enabled ? <ToggleRight size={32} /> : <ToggleLeft size={32} />}
+                                                </button>
+                                            </div>
+                                        </div>
+
+                                        <div className="mt-4 p-4 bg-slate-50 rounded-xl border border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                                            <div>
+                                                <span className="text-sm font-bold text-slate-700 block">Record Answers</span>
+                                                <span className="text-[10px] text-slate-400 font-medium">Keep camera and microphone recordings of each answer so reviewers can check the transcript.</span>
+                                            </div>
+                                            <div className="flex items-center gap-4 shrink-0">
+                                                {(editingJob.settings.recording ?? DEFAULT_RECORDING).enabled && (
+                                                    <div className="flex items-center gap-2">
+                                                        <input
+                                                            type="number" min="0" max="3650"
+                                                            value={(editingJob.settings.recording ?? DEFAULT_RECORDING).retentionDays}
+                                                            onChange={(e) => handleUpdateRecording('retentionDays', Math.max(0, Math.min(3650, parseInt(e.target.value) || 0)))}
+                                                            className="w-20 p-2 bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-500 font-bold text-sm"
+                                                        />
+                                                        <span className="text-[10px] text-slate-400 font-medium">days kept (0 = until deleted)</span>
+                                                    </div>
+                                                )}
+                                                <button
+                                                    onClick={() => handleUpdateRecording('enabled', !(editingJob.settings.recording ?? DEFAULT_RECORDING).enabled)}
+                                                    className={(editingJob.settings.recording ?? DEFAULT_RECORDING).enabled ? 'text-indigo-600' : 'text-slate-300'}
+                                                >
+                                                    {(editingJob.settings.recording ?? DEFAULT_RECORDING).enabled ? <ToggleRight size={32} /> : <ToggleLeft size={32} />}
+                                                </button>
+                                            </div>
+                                        </div>
+
+                                        <div className="mt-4 p-4 bg-slate-50 rounded-xl border border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                                            <div>
+                                                <span className="text-sm font-bold text-slate-700 block">Typed Answers</span>
+                                                <span className="text-[10px] text-slate-400 font-medium">Every candidate types their answers instead of speaking. Candidates can always switch to typing themselves.</span>
+                                            </div>
+                                            <button
+                                                onClick={() => setEditingJob({ ...editingJob, settings: { ...editingJob.settings, typedAnswers: !editingJob.settings.typedAnswers } })}
+                                                className={editingJob.settings.typedAnswers ? 'text-indigo-600' : 'text-slate-300'}
+                                            >
+                                                {editingJob.settings.typedAnswers ? <ToggleRight size={32} /> : <ToggleLeft size={32} />}
+                                            </button>
+                                        </div>
                                     </div>
                                 </div>
                             )}
@@ -821,6 +1222,24 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                             {/* --- QUESTIONS EDITOR --- */}
                             {jobEditTab === 'questions' && (
                                 <div className="space-y-6 overflow-y-auto pr-2">
+                                    <div className="flex flex-wrap items-center justify-end gap-2">
+                                        <button onClick={() => setShowGenerator(true)} className="px-4 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:border-indigo-400 flex items-center gap-2 transition-all mr-auto">
+                                            <Sparkles size={14} /> Generate From Description
+                                        </button>
+                                        <button onClick={() => setShowImport(true)} className="px-4 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:border-indigo-400 hover:text-indigo-600 flex items-center gap-2 transition-all">
+                                            <Upload size={14} /> Import
+                                        </button>
+                                        {(['csv', 'json', 'md'] as QuestionBankFormat[]).map(f => (
+                                            <button
+                                                key={f}
+                                                onClick={() => handleExportQuestions(f)}
+                                                disabled={editingJob.questions.length === 0}
+                                                className="px-4 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:border-indigo-400 hover:text-indigo-600 flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                            >
+                                                <Download size={14} /> {f.toUpperCase()}
+                                            </button>
+                                        ))}
+                                    </div>
                                     {editingJob.questions.map((q, idx) => (
                                         <div key={q.id} className="bg-white dark:bg-slate-900 p-8 rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm relative group animate-fade-in divide-y divide-slate-100 dark:divide-slate-800 transition-colors">
                                             <div className="pb-6">
@@ -829,9 +1248,18 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                                         <span className="bg-slate-900 text-white font-bold w-8 h-8 rounded-lg flex items-center justify-center text-xs shadow-sm shadow-slate-300">#{idx + 1}</span>
                                                         <h4 className="text-xs font-bold text-indigo-600 uppercase tracking-widest">Question Module</h4>
                                                     </div>
-                                                    <button onClick={() => handleDeleteQuestion(q.id)} className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all">
-                                                        <Trash2 size={18} />
-                                                    </button>
+                                                    <div className="flex items-center gap-1">
+                                                        <button
+                                                            onClick={() => handleDraftWithAI(q)}
+                                                            disabled={!q.text.trim() || draftingId !== null}
+                                                            className="px-3 py-1.5 text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 rounded-lg flex items-center gap-1.5 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                                        >
+                                                            {draftingId === q.id ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />} Draft with AI
+                                                        </button>
+                                                        <button onClick={() => handleDeleteQuestion(q.id)} className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all">
+                                                            <Trash2 size={18} />
+                                                        </button>
+                                                    </div>
                                                 </div>
 
                                                 <div className="grid grid-cols-1 gap-6">
@@ -854,6 +1282,13 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                                         />
                                                     </div>
                                                 </div>
+                                                {drafts[q.id] && (
+                                                    <AiDraftPanel
+                                                        draft={drafts[q.id]}
+                                                        onApply={(reference, keyPoints) => handleApplyDraft(q.id, reference, keyPoints)}
+                                                        onDismiss={() => handleDismissDraft(q.id)}
+                                                    />
+                                                )}
                                             </div>
 
                                             <div className="py-6">
@@ -885,7 +1320,15 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                                 <p className="text-[10px] text-slate-400 italic">These point guide the AI to verify specific technical concepts in the candidate's answer.</p>
                                             </div>
 
-                                            <div className="pt-6 grid grid-cols-2 gap-4">
+                                            <div className="py-6">
+                                                <QuestionTranslationsEditor
+                                                    question={q}
+                                                    jobLanguage={languageOf(editingJob.settings)}
+                                                    onChange={(translations) => handleUpdateQuestion(q.id, 'translations', translations)}
+                                                />
+                                            </div>
+
+                                            <div className="pt-6 grid grid-cols-3 gap-4">
                                                 <div>
                                                     <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Difficulty</label>
                                                     <select
@@ -907,6 +1350,16 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                                         placeholder="e.g. React hooks"
                                                     />
                                                 </div>
+                                                <div>
+                                                    <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Follow-Ups</label>
+                                                    <input
+                                                        type="number" min="0" max="3"
+                                                        className="w-full border border-slate-200 rounded-lg p-2 text-xs outline-none bg-slate-50"
+                                                        value={q.maxFollowUps || 0}
+                                                        onChange={(e) => handleUpdateQuestion(q.id, 'maxFollowUps', Math.max(0, Math.min(3, parseInt(e.target.value) || 0)))}
+                                                        title="Probing questions asked when key points are missed"
+                                                    />
+                                                </div>
                                             </div>
                                         </div>
                                     ))}
@@ -918,9 +1371,27 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
                                     </button>
                                 </div>
                             )}
+
+                            {showImport && (
+                                <QuestionImportModal
+                                    existing={editingJob.questions}
+                                    onImport={handleImportQuestions}
+                                    onClose={() => setShowImport(false)}
+                                />
+                            )}
+                            {showGenerator && (
+                                <QuestionSetGeneratorModal
+                                    job={editingJob}
+                                    onImport={handleImportQuestions}
+                                    onClose={() => setShowGenerator(false)}
+                                />
+                            )}
                         </div>
                     )}
 
+                    {/* --- TAB: LOCKOUT REVIEWS --- */}
+                    {activeTab === 'reviews' && <LockoutReviewQueue />}
+
                     {/* --- TAB: GLOBAL CONFIG --- */}
                     {activeTab === 'config' && (
                         <div className="max-w-3xl space-y-8 animate-fade-in">
@@ -0,0 +1,70 @@
+import * as React from 'react';
+const { useState } = React;
+import { Sparkles, Check, X } from 'lucide-react';
+import { AnswerDraft } from '../services/authoringService';
+
+interface AiDraftPanelProps {
+  draft: AnswerDraft;
+  onApply: (referenceAnswer: string | null, keyPoints: string[]) => void;
+  onDismiss: () => void;
+}
+
+// Review step for a drafted reference answer and key points: each suggestion can be edited and accepted or rejected
+export const AiDraftPanel: React.FC<AiDraftPanelProps> = ({ draft, onApply, onDismiss }) => {
+  const [reference, setReference] = useState({ text: draft.referenceAnswer, accepted: true });
+  const [keyPoints, setKeyPoints] = useState(draft.keyPoints.map(text => ({ text, accepted: true })));
+
+  const updateKeyPoint = (index: number, patch: Partial<{ text: string; accepted: boolean }>) =>
+    setKeyPoints(keyPoints.map((k, i) => i === index ? { ...k, ...patch } : k));
+
+  const acceptedKeyPoints = keyPoints.filter(k => k.accepted && k.text.trim()).map(k => k.text.trim());
+  const hasSelection = (reference.accepted && reference.text.trim()) || acceptedKeyPoints.length > 0;
+
+  const toggleClass = (accepted: boolean) =>
+    `p-1.5 rounded-lg border transition-all shrink-0 ${accepted ? 'bg-emerald-500 text-white border-emerald-500' : 'bg-white dark:bg-slate-800 text-slate-400 border-slate-200 dark:border-slate-700'}`;
+
+  return (
+    <div className="mt-6 p-5 bg-indigo-50/60 dark:bg-indigo-500/10 border border-indigo-100 dark:border-indigo-500/20 rounded-xl space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold text-indigo-600 dark:text-indigo-400 uppercase tracking-widest flex items-center gap-2"><Sparkles size={14} /> AI Draft — review before applying</span>
+        <button onClick={onDismiss} className="p-1 text-slate-400 hover:text-slate-700 dark:hover:text-white"><X size={16} /></button>
+      </div>
+
+      <div className="flex gap-2 items-start">
+        <button onClick={() => setReference({ ...reference, accepted: !reference.accepted })} className={toggleClass(reference.accepted)} title={reference.accepted ? 'Accepted' : 'Rejected'}>
+          <Check size={14} />
+        </button>
+        <textarea
+          className={`flex-1 border border-indigo-100 dark:border-slate-700 rounded-lg p-3 text-xs outline-none bg-white dark:bg-slate-800 focus:border-indigo-400 h-24 leading-relaxed text-slate-700 dark:text-slate-200 transition-opacity ${reference.accepted ? '' : 'opacity-50'}`}
+          value={reference.text}
+          onChange={(e) => setReference({ ...reference, text: e.target.value })}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {keyPoints.map((k, i) => (
+          <div key={i} className="flex gap-2 items-center">
+            <button onClick={() => updateKeyPoint(i, { accepted: !k.accepted })} className={toggleClass(k.accepted)} title={k.accepted ? 'Accepted' : 'Rejected'}>
+              <Check size={14} />
+            </button>
+            <input
+              className={`flex-1 border border-indigo-100 dark:border-slate-700 rounded-lg px-3 py-2 text-xs outline-none bg-white dark:bg-slate-800 focus:border-indigo-400 font-medium text-slate-700 dark:text-slate-200 transition-opacity ${k.accepted ? '' : 'opacity-50'}`}
+              value={k.text}
+              onChange={(e) => updateKeyPoint(i, { text: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => onApply(reference.accepted && reference.text.trim() ? reference.text.trim() : null, acceptedKeyPoints)}
+          disabled={!hasSelection}
+          className={`px-4 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold flex items-center gap-2 transition-all ${hasSelection ? 'hover:bg-indigo-700 active:scale-95' : 'opacity-50 cursor-not-allowed'}`}
+        >
+          <Check size={14} /> Apply Accepted
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import * as React from 'react';
+const { useState, useEffect } = React;
+import { Film, Loader2, Play } from 'lucide-react';
+import { AnswerClip, EvaluationResult } from '../types';
+import { getClipUrl, getSessionClips } from '../services/clipService';
+
+interface AnswerClipPlayerProps {
+  sessionId: string;
+  results: EvaluationResult[];
+}
+
+interface Chapter {
+  clip: AnswerClip;
+  label: string;
+}
+
+const formatDuration = (seconds?: number) =>
+  seconds === undefined ? '--:--' : `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+// One chapter per recorded answer and follow-up, in question order; plays straight through
+export const AnswerClipPlayer: React.FC<AnswerClipPlayerProps> = ({ sessionId, results }) => {
+  const [clips, setClips] = useState<AnswerClip[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [current, setCurrent] = useState(0);
+  const [autoPlay, setAutoPlay] = useState(false);
+
+  useEffect(() => {
+    getSessionClips(sessionId).then(setClips).catch(err => setError(err.message));
+  }, [sessionId]);
+
+  const recorded = results.filter(r => r.clipIds?.length);
+  if (recorded.length === 0) return null;
+
+  const chapters: Chapter[] = results.flatMap((r, i) => (r.clipIds || [])
+    .map(id => clips?.find(c => c.id === id))
+    .filter((c): c is AnswerClip => !!c)
+    .map((clip, turn) => ({ clip, label: turn === 0 ? `Q${i + 1}` : `Q${i + 1} Follow-Up ${turn}` })));
+  const chapter = chapters[current];
+
+  const jumpTo = (index: number) => {
+    setCurrent(index);
+    setAutoPlay(true);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="p-4 bg-slate-50 border-b border-slate-200 font-bold text-slate-700 flex items-center gap-2 text-sm">
+        <Film size={16} className="text-indigo-500" /> Answer Recordings
+        {chapter?.clip.expiresAt && (
+          <span className="ml-auto text-[10px] font-medium uppercase tracking-wider text-slate-400">
+            Kept until {new Date(chapter.clip.expiresAt).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+
+      {error ? (
+        <p className="px-6 py-4 text-sm text-red-600">{error}</p>
+      ) : clips === null ? (
+        <div className="flex justify-center py-8"><Loader2 size={24} className="animate-spin text-indigo-500" /></div>
+      ) : chapters.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-slate-400 italic">The recordings for this session have expired or failed to upload.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3">
+          <div className="lg:col-span-2 bg-slate-950">
+            <video
+              key={chapter.clip.id}
+              src={getClipUrl(chapter.clip.id)}
+              controls
+              autoPlay={autoPlay}
+              onEnded={() => current < chapters.length - 1 && jumpTo(current + 1)}
+              className="w-full aspect-video"
+            />
+          </div>
+          <ol className="divide-y divide-slate-100 max-h-80 overflow-y-auto">
+            {chapters.map((c, i) => (
+              <li key={c.clip.id}>
+                <button
+                  onClick={() => jumpTo(i)}
+                  className={`w-full text-left px-4 py-3 flex items-center gap-3 text-sm transition-colors ${i === current ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-slate-50 text-slate-600'}`}
+                >
+                  <Play size={12} className={i === current ? 'text-indigo-500' : 'text-slate-300'} />
+                  <span className="font-bold">{c.label}</span>
+                  {!c.clip.completedAt && (
+                    <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-amber-50 text-amber-700" title="The upload stopped before the answer ended">Partial</span>
+                  )}
+                  <span className="ml-auto text-[10px] font-mono text-slate-400">{formatDuration(c.clip.durationSeconds)}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+      {chapters.length > 0 && chapters.length < recorded.reduce((n, r) => n + (r.clipIds?.length || 0), 0) && (
+        <p className="px-6 py-2 text-[10px] text-slate-400 border-t border-slate-100">Some recordings have expired and were deleted.</p>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,9 @@
 import * as React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, User, Mail, Lock, ArrowRight, ShieldCheck, UserPlus, LogIn, ChevronDown } from 'lucide-react';
+import { X, User, Mail, Lock, ArrowRight, ShieldCheck, UserPlus, LogIn, ChevronDown, Ticket } from 'lucide-react';
 import { StorageService } from '../services/storageService';
 import { JobPost } from '../types';
+import { InviteLookup, lookupInvite } from '../services/inviteService';
 
 export type AuthMode = 'CANDIDATE_LOGIN' | 'CANDIDATE_REGISTER' | 'ADMIN_LOGIN' | 'ADMIN_REGISTER';
 
@@ -10,30 +11,45 @@ interface AuthModalProps {
   initialMode: AuthMode;
   onClose: () => void;
   onSuccess: (role: 'ADMIN' | 'CANDIDATE', data: any) => void;
+  inviteCode?: string; // From an ?invite= link; binds the candidate to the invite's job
 }
 
-export const AuthModal: React.FC<AuthModalProps> = ({ initialMode, onClose, onSuccess }) => {
+export const AuthModal: React.FC<AuthModalProps> = ({ initialMode, onClose, onSuccess, inviteCode }) => {
   const [mode, setMode] = React.useState<AuthMode>(initialMode);
   const [formData, setFormData] = React.useState({
     name: '',
     email: '',
     username: '',
     password: '',
-    position: ''
+    jobPostId: ''
   });
   const [loading, setLoading] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
   const [jobs, setJobs] = React.useState<JobPost[]>([]);
+  const [invite, setInvite] = React.useState<InviteLookup | null>(null);
 
   React.useEffect(() => {
-    const availableJobs = StorageService.getJobs();
-    setJobs(availableJobs);
-    // Set default position if jobs exist
-    if (availableJobs.length > 0 && !formData.position) {
-      setFormData(prev => ({ ...prev, position: availableJobs[0].title }));
-    }
+    StorageService.getJobs('ACTIVE').then(availableJobs => {
+      setJobs(availableJobs);
+      // Set default position if jobs exist
+      if (availableJobs.length > 0) {
+        setFormData(prev => prev.jobPostId ? prev : { ...prev, jobPostId: availableJobs[0].id });
+      }
+    });
   }, []);
 
+  React.useEffect(() => {
+    if (!inviteCode) return;
+    lookupInvite(inviteCode).then(found => {
+      setInvite(found);
+      if (!found) {
+        setError("This invite link is invalid, used up or expired.");
+      } else if (found.email) {
+        setFormData(prev => ({ ...prev, email: found.email! }));
+      }
+    });
+  }, [inviteCode]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -49,8 +65,8 @@ export const AuthModal: React.FC<AuthModalProps> = ({ initialMode, onClose, onSu
     if (isCandidate) {
       url = isRegister ? '/api/auth/register/candidate' : '/api/auth/login/candidate';
       payload = isRegister 
-        ? { name: formData.name, email: formData.email, password: formData.password, position: formData.position }
-        : { email: formData.email, password: formData.password };
+        ? { name: formData.name, email: formData.email, password: formData.password, jobPostId: invite?.jobPostId || formData.jobPostId, position: invite?.jobTitle || jobs.find(j => j.id === formData.jobPostId)?.title, inviteCode: invite?.code }
+        : { email: formData.email, password: formData.password, inviteCode: invite?.code };
     } else {
       url = isRegister ? '/api/auth/register/admin' : '/api/auth/login/admin';
       payload = isRegister
@@ -147,6 +163,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({ initialMode, onClose, onSu
                 required
                 className="w-full h-14 bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-2xl px-5 text-sm outline-none focus:border-indigo-500 text-slate-900 dark:text-white transition-all font-medium"
                 value={formData.email}
+                readOnly={mode.startsWith('CANDIDATE') && !!invite?.email}
                 onChange={e => setFormData({ ...formData, email: e.target.value })}
               />
             )}
@@ -171,17 +188,24 @@ export const AuthModal: React.FC<AuthModalProps> = ({ initialMode, onClose, onSu
               />
             )}
 
-            {mode === 'CANDIDATE_REGISTER' && (
+            {mode.startsWith('CANDIDATE') && invite && (
+              <div className="h-14 bg-indigo-500/10 border border-indigo-500/30 rounded-2xl px-5 text-sm flex items-center gap-3 text-slate-900 dark:text-white font-medium">
+                <Ticket size={18} className="text-indigo-400 shrink-0" />
+                <span className="truncate">Invited for <span className="font-bold">{invite.jobTitle}</span></span>
+              </div>
+            )}
+
+            {mode === 'CANDIDATE_REGISTER' && !invite && (
               <div className="relative group">
                 <select 
                   required
                   className="w-full h-14 bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-2xl px-5 pr-10 text-sm outline-none focus:border-indigo-500 text-slate-900 dark:text-white transition-all font-medium appearance-none cursor-pointer"
-                  value={formData.position}
-                  onChange={e => setFormData({ ...formData, position: e.target.value })}
+                  value={formData.jobPostId}
+                  onChange={e => setFormData({ ...formData, jobPostId: e.target.value })}
                 >
                   <option value="" disabled className="bg-white dark:bg-slate-900">Select Position Applied For</option>
                   {jobs.map(job => (
-                    <option key={job.id} value={job.title} className="bg-white dark:bg-slate-900 text-slate-900 dark:text-white">
+                    <option key={job.id} value={job.id} className="bg-white dark:bg-slate-900 text-slate-900 dark:text-white">
                       {job.title}
                     </option>
                   ))}
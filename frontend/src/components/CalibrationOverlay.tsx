@@ -0,0 +1,32 @@
+import * as React from 'react';
+import { CalibrationTarget } from '../services/headPose';
+
+interface CalibrationOverlayProps {
+  target: CalibrationTarget;
+  label: string;
+  step: number;
+  total: number;
+  isSampling: boolean; // False while the candidate is still turning towards the dot
+}
+
+const POSITIONS: Record<CalibrationTarget, string> = {
+  CENTER: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2',
+  TOP_LEFT: 'top-8 left-8',
+  TOP_RIGHT: 'top-8 right-8',
+  BOTTOM_LEFT: 'bottom-8 left-8',
+  BOTTOM_RIGHT: 'bottom-8 right-8',
+};
+
+export const CalibrationOverlay: React.FC<CalibrationOverlayProps> = ({ target, label, step, total, isSampling }) => (
+  <div className="fixed inset-0 z-[9999] bg-slate-950/90 backdrop-blur-sm animate-fade-in" style={{ position: 'fixed' }}>
+    <div className={`absolute ${POSITIONS[target]} w-8 h-8 rounded-full flex items-center justify-center ${isSampling ? 'bg-brand-500/30' : 'bg-white/10'}`}>
+      <span className={`w-3 h-3 rounded-full ${isSampling ? 'bg-brand-400 animate-pulse' : 'bg-white'}`}></span>
+    </div>
+
+    <div className={`absolute left-1/2 -translate-x-1/2 text-center text-white ${target === 'CENTER' ? 'top-[60%]' : 'top-1/2 -translate-y-1/2'}`}>
+      <p className="text-[10px] font-bold uppercase tracking-[0.2em] text-slate-400 mb-2">Calibration {step} of {total}</p>
+      <p className="text-xl font-black tracking-tight">Look at {label}</p>
+      <p className="text-xs text-slate-400 mt-2">Turn your head naturally, as you would to read there.</p>
+    </div>
+  </div>
+);
@@ -1,11 +1,22 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Camera, Loader2, AlertTriangle, CheckCircle, RefreshCw, ArrowRight, Video } from 'lucide-react';
+import { Camera, Loader2, AlertTriangle, CheckCircle, RefreshCw, ArrowRight, Video, Crosshair } from 'lucide-react';
+import { FaceLandmarker } from '@mediapipe/tasks-vision';
+import { HeadPose, HeadPoseCalibration } from '../types';
+import { createFaceLandmarker } from '../services/visionModels';
+import { buildCalibration, CALIBRATION_TARGETS, CalibrationTarget, sampleHeadPose } from '../services/headPose';
+import { CalibrationOverlay } from './CalibrationOverlay';
 
 interface CameraCheckScreenProps {
-  onComplete: () => void;
+  onComplete: (calibration: HeadPoseCalibration | null) => void;
 }
 
+// Time to turn towards each calibration dot, then time spent measuring
+const SETTLE_MS = 1200;
+const SAMPLE_MS = 1500;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 export const CameraCheckScreen: React.FC<CameraCheckScreenProps> = ({ onComplete }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
@@ -13,6 +24,16 @@ export const CameraCheckScreen: React.FC<CameraCheckScreenProps> = ({ onComplete
   const [errorMsg, setErrorMsg] = useState('');
   const isStartingRef = useRef(false);
 
+  // Head-pose calibration. UNAVAILABLE means face tracking failed to load, which would also stop
+  // the interview's proctoring, so the candidate can't continue until a retry succeeds.
+  const landmarkerRef = useRef<FaceLandmarker | null>(null);
+  const [calibrationStatus, setCalibrationStatus] = useState<'LOADING' | 'IDLE' | 'RUNNING' | 'DONE' | 'FAILED' | 'UNAVAILABLE'>('LOADING');
+  const [modelError, setModelError] = useState('');
+  const [modelAttempt, setModelAttempt] = useState(0);
+  const [calibration, setCalibration] = useState<HeadPoseCalibration | null>(null);
+  const [targetIndex, setTargetIndex] = useState(0);
+  const [isSampling, setIsSampling] = useState(false);
+
   const startCamera = async () => {
     if (isStartingRef.current) return;
     isStartingRef.current = true;
@@ -86,6 +107,58 @@ export const CameraCheckScreen: React.FC<CameraCheckScreenProps> = ({ onComplete
     };
   }, []);
 
+  useEffect(() => {
+    let isActive = true;
+    setCalibrationStatus('LOADING');
+    createFaceLandmarker()
+      .then(landmarker => {
+        if (!isActive) return landmarker.close();
+        landmarkerRef.current = landmarker;
+        setCalibrationStatus('IDLE');
+      })
+      .catch(err => {
+        console.error("Failed to load face tracking:", err);
+        if (!isActive) return;
+        setModelError(err.message);
+        setCalibrationStatus('UNAVAILABLE');
+      });
+    return () => {
+      isActive = false;
+      landmarkerRef.current?.close();
+      landmarkerRef.current = null;
+    };
+  }, [modelAttempt]);
+
+  const runCalibration = async () => {
+    const video = videoRef.current;
+    if (!landmarkerRef.current || !video) return;
+
+    setCalibration(null);
+    setCalibrationStatus('RUNNING');
+    const samples = {} as Record<CalibrationTarget, HeadPose[]>;
+    try {
+      for (let i = 0; i < CALIBRATION_TARGETS.length; i++) {
+        setTargetIndex(i);
+        setIsSampling(false);
+        await wait(SETTLE_MS);
+        // The screen may have been left mid-calibration
+        if (!landmarkerRef.current) return;
+        setIsSampling(true);
+        samples[CALIBRATION_TARGETS[i].target] = await sampleHeadPose(landmarkerRef.current, video, SAMPLE_MS);
+      }
+    } catch (err) {
+      console.error("Calibration failed:", err);
+      if (landmarkerRef.current) setCalibrationStatus('FAILED');
+      return;
+    }
+
+    const result = buildCalibration(samples);
+    setCalibration(result);
+    setCalibrationStatus(result ? 'DONE' : 'FAILED');
+  };
+
+  const canContinue = status === 'READY' && calibrationStatus === 'DONE';
+
   return (
     <div className="h-full w-full flex items-center justify-center p-4 transition-colors duration-300 relative overflow-hidden">
       {/* Background Orbs */}
@@ -169,6 +242,42 @@ export const CameraCheckScreen: React.FC<CameraCheckScreenProps> = ({ onComplete
                     </ul>
                   </div>
                 </div>
+
+                {/* Calibration */}
+                <div className="bg-white/60 dark:bg-slate-800/40 border border-slate-100 dark:border-slate-800 p-5 rounded-3xl flex items-center gap-4 transition-colors">
+                  <div className={`w-10 h-10 rounded-xl flex items-center justify-center shrink-0 transition-colors ${calibrationStatus === 'DONE' ? 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-600 dark:text-emerald-400' : calibrationStatus === 'UNAVAILABLE' ? 'bg-red-100 dark:bg-red-900/40 text-red-600 dark:text-red-400' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}>
+                    {calibrationStatus === 'DONE' ? <CheckCircle size={20} /> : calibrationStatus === 'UNAVAILABLE' ? <AlertTriangle size={20} /> : <Crosshair size={20} />}
+                  </div>
+                  <div className="text-xs leading-relaxed flex-1">
+                    <p className="font-black text-slate-800 dark:text-slate-200 uppercase tracking-tight mb-1">Head Calibration</p>
+                    <p className="text-slate-500 dark:text-slate-400 font-medium">
+                      {calibrationStatus === 'LOADING' && 'Loading face tracking...'}
+                      {calibrationStatus === 'IDLE' && 'Look at five points on screen so proctoring adapts to where your camera sits.'}
+                      {calibrationStatus === 'RUNNING' && 'Follow the dot...'}
+                      {calibrationStatus === 'DONE' && 'Calibrated to your camera position.'}
+                      {calibrationStatus === 'FAILED' && 'Your face was not tracked at every point. Keep it in frame and try again.'}
+                      {calibrationStatus === 'UNAVAILABLE' && `Face tracking could not load, and the interview can't be proctored without it. ${modelError} Your network may be blocking it; contact the hiring team if retrying doesn't help.`}
+                    </p>
+                  </div>
+                  {(calibrationStatus === 'IDLE' || calibrationStatus === 'DONE' || calibrationStatus === 'FAILED') && (
+                    <button
+                      onClick={runCalibration}
+                      disabled={status !== 'READY'}
+                      className="px-4 py-2 rounded-xl text-xs font-black uppercase tracking-wider bg-brand-600 hover:bg-brand-700 text-white transition-all disabled:opacity-50 active:scale-95 shrink-0"
+                    >
+                      {calibrationStatus === 'IDLE' ? 'Start' : 'Redo'}
+                    </button>
+                  )}
+                  {calibrationStatus === 'UNAVAILABLE' && (
+                    <button
+                      onClick={() => setModelAttempt(a => a + 1)}
+                      className="px-4 py-2 rounded-xl text-xs font-black uppercase tracking-wider bg-red-500 hover:bg-red-600 text-white transition-all active:scale-95 shrink-0"
+                    >
+                      Retry
+                    </button>
+                  )}
+                  {calibrationStatus === 'LOADING' && <Loader2 size={18} className="animate-spin text-brand-500 shrink-0" />}
+                </div>
               </div>
             )}
           </div>
@@ -177,9 +286,9 @@ export const CameraCheckScreen: React.FC<CameraCheckScreenProps> = ({ onComplete
         {/* Footer Action */}
         <div className="p-8 border-t border-slate-100 dark:border-slate-800 bg-white/30 dark:bg-slate-900/30 backdrop-blur-sm shrink-0">
           <button
-            onClick={onComplete}
-            disabled={status !== 'READY'}
-            className={`w-full py-4 rounded-2xl font-black text-base flex items-center justify-center gap-3 transition-all tracking-tight ${status === 'READY'
+            onClick={() => onComplete(calibration)}
+            disabled={!canContinue}
+            className={`w-full py-4 rounded-2xl font-black text-base flex items-center justify-center gap-3 transition-all tracking-tight ${canContinue
               ? 'bg-brand-600 hover:bg-brand-700 dark:bg-brand-500 dark:hover:bg-brand-600 text-white shadow-xl shadow-brand-500/20 active:scale-95'
               : 'bg-slate-200 dark:bg-slate-800 text-slate-400 dark:text-slate-600 cursor-not-allowed'
               }`}
@@ -189,6 +298,16 @@ export const CameraCheckScreen: React.FC<CameraCheckScreenProps> = ({ onComplete
         </div>
 
       </div>
+
+      {calibrationStatus === 'RUNNING' && (
+        <CalibrationOverlay
+          target={CALIBRATION_TARGETS[targetIndex].target}
+          label={CALIBRATION_TARGETS[targetIndex].label}
+          step={targetIndex + 1}
+          total={CALIBRATION_TARGETS.length}
+          isSampling={isSampling}
+        />
+      )}
     </div>
   );
 };
@@ -1,18 +1,51 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { FaceLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
+import { FaceLandmarker, ImageEmbedder, ObjectDetector, ObjectDetectorResult } from '@mediapipe/tasks-vision';
 import { AlertTriangle, UserCheck, Eye, Camera, Lock, ScanFace } from 'lucide-react';
-import { VisualMetrics } from '../types';
+import { CameraWarning, HeadPoseCalibration, VisualMetrics, WarningType } from '../types';
+import { createEvidenceRecorder } from '../services/evidenceCapture';
+import { SuspicionRecorder } from '../services/suspicionTimeline';
+import { createFaceLandmarker, createImageEmbedder, createObjectDetector } from '../services/visionModels';
+import { compareFace, cropFace, EnrolledFace, enrollFaces, IDENTITY_CHECK_INTERVAL_MS, IdentityCheck, IdentityPhoto, IdentityRecorder, MISMATCHES_TO_WARN } from '../services/faceIdentity';
+import { getGazeThresholds, measureHeadPose } from '../services/headPose';
+import { AudioSignals } from '../hooks/useAudioProctor';
 
 interface CameraMonitorProps {
-  onWarning: (count: number) => void;
+  onWarning: (warning: CameraWarning) => void;
   onMetricsUpdate: (metrics: VisualMetrics) => void;
   isLocked: boolean;
   onStreamReady?: () => void;
   sensitivity?: 'Low' | 'Medium' | 'High';
+  timeline?: SuspicionRecorder; // Receives every frame's metrics while isAnswering
+  isAnswering?: boolean;
+  calibration?: HeadPoseCalibration | null; // From the camera check; fixed ratios are used without it
+  objectDetection?: boolean;
+  onUnavailable?: (model: 'FACE' | 'OBJECT' | 'IDENTITY', message: string) => void; // A vision model failed to load
+  identityPhotos?: IdentityPhoto[]; // Registered photos to match the live face against
+  identityLog?: IdentityRecorder;
+  audioSignals?: React.MutableRefObject<AudioSignals>; // From useAudioProctor when the role listens to the microphone
 }
 
-export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetricsUpdate, isLocked, onStreamReady, sensitivity = 'Medium' }) => {
+type ObjectWarningType = 'PHONE_DETECTED' | 'BOOK_DETECTED' | 'SCREEN_DETECTED';
+
+const OBJECT_WARNINGS: Record<ObjectWarningType, string> = {
+  PHONE_DETECTED: "Mobile phone detected in frame! Put it away.",
+  BOOK_DETECTED: "Book or notes detected in frame! Clear your desk.",
+  SCREEN_DETECTED: "Second screen detected in frame! Use only this screen.",
+};
+
+const OBJECT_LABELS: Record<string, ObjectWarningType> = {
+  'cell phone': 'PHONE_DETECTED',
+  'book': 'BOOK_DETECTED',
+  'laptop': 'SCREEN_DETECTED',
+  'tv': 'SCREEN_DETECTED',
+};
+
+// The detector is much heavier than the landmarker, so it runs twice a second
+const OBJECT_DETECTION_INTERVAL_MS = 500;
+const OBJECT_PASSES_TO_WARN = 2;
+
+export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetricsUpdate, isLocked, onStreamReady, sensitivity = 'Medium', timeline, isAnswering = false, calibration, objectDetection = false, onUnavailable, identityPhotos, identityLog, audioSignals }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [warnings, setWarnings] = useState(0);
@@ -33,10 +66,30 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
   const lastWarningTimeRef = useRef<number>(0);
   const confidenceAccumulatorRef = useRef<number[]>([]);
   const suspicionAccumulatorRef = useRef<number[]>([]);
+  const evidenceRef = useRef(createEvidenceRecorder());
+  const objectDetectorRef = useRef<ObjectDetector | null>(null);
+  const lastObjectDetectionRef = useRef<number>(0);
+  const objectPassesRef = useRef<Record<ObjectWarningType, number>>({ PHONE_DETECTED: 0, BOOK_DETECTED: 0, SCREEN_DETECTED: 0 });
+  const objectsInViewRef = useRef<Set<ObjectWarningType>>(new Set());
+  const identityRef = useRef<{ embedder: ImageEmbedder; enrolled: EnrolledFace[] } | null>(null);
+  const lastIdentityCheckRef = useRef<number>(0);
+  const identityMismatchesRef = useRef<number>(0);
+  // Read from the animation-frame loop, which keeps the first render's closure
+  const isAnsweringRef = useRef(isAnswering);
+  isAnsweringRef.current = isAnswering;
+  const gazeThresholds = getGazeThresholds(calibration);
+  const gazeRef = useRef(gazeThresholds);
+  gazeRef.current = gazeThresholds;
+  const sensitivityRef = useRef(sensitivity);
+  sensitivityRef.current = sensitivity;
+  const onWarningRef = useRef(onWarning);
+  onWarningRef.current = onWarning;
+  const audioSignalsRef = useRef(audioSignals);
+  audioSignalsRef.current = audioSignals;
 
   // Configure sensitivity thresholds
   const getThresholds = () => {
-    switch (sensitivity) {
+    switch (sensitivityRef.current) {
       case 'High': return { missing: 5, away: 4 }; // Instant reaction
       case 'Low': return { missing: 30, away: 20 }; // ~0.5-1s buffer
       case 'Medium':
@@ -49,18 +102,7 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
 
     const initMediaPipe = async () => {
       try {
-        const filesetResolver = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-        );
-        const faceLandmarker = await FaceLandmarker.createFromOptions(filesetResolver, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task`,
-            delegate: "GPU"
-          },
-          outputFaceBlendshapes: true,
-          runningMode: "VIDEO",
-          numFaces: 2
-        });
+        const faceLandmarker = await createFaceLandmarker();
 
         if (isActive) {
           faceLandmarkerRef.current = faceLandmarker;
@@ -69,7 +111,8 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
         }
       } catch (error) {
         console.error("Failed to init MediaPipe:", error);
-        setFeedbackMsg("Camera system error. Refresh page.");
+        setFeedbackMsg("Proctoring unavailable");
+        if (isActive) onUnavailable?.('FACE', error instanceof Error ? error.message : 'Face tracking could not start.');
       }
     };
 
@@ -85,6 +128,61 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Optional, and loaded separately: a missing model is reported but never stops face monitoring
+  useEffect(() => {
+    if (!objectDetection) return;
+    let isActive = true;
+
+    createObjectDetector()
+      .then(detector => {
+        if (isActive) objectDetectorRef.current = detector;
+        else detector.close();
+      })
+      .catch(error => {
+        console.warn("Object detection unavailable, continuing without it:", error);
+        if (isActive) onUnavailable?.('OBJECT', error instanceof Error ? error.message : 'Object detection could not start.');
+      });
+
+    return () => {
+      isActive = false;
+      objectDetectorRef.current?.close();
+      objectDetectorRef.current = null;
+      objectsInViewRef.current = new Set();
+    };
+  }, [objectDetection]);
+
+  // Enrolled once face tracking is up, since the registered photos need their faces found first
+  useEffect(() => {
+    if (!isInitialized || !identityPhotos?.length) return;
+    let isActive = true;
+
+    const enroll = async () => {
+      const embedder = await createImageEmbedder();
+      if (!isActive || !faceLandmarkerRef.current) return embedder.close();
+      const enrolled = await enrollFaces(faceLandmarkerRef.current, embedder, identityPhotos);
+      if (!isActive) return embedder.close();
+      if (!enrolled.length) {
+        embedder.close();
+        onUnavailable?.('IDENTITY', 'No face was found in the registered photos.');
+        return;
+      }
+      identityRef.current = { embedder, enrolled };
+      identityLog?.enrolled(enrolled.map(e => e.reference));
+    };
+
+    enroll().catch(error => {
+      console.warn("Identity check unavailable, continuing without it:", error);
+      if (isActive) onUnavailable?.('IDENTITY', error instanceof Error ? error.message : 'Identity check could not start.');
+    });
+
+    return () => {
+      isActive = false;
+      identityRef.current?.embedder.close();
+      identityRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isInitialized, identityPhotos]);
+
   const isStartingRef = useRef(false);
 
   const startCamera = async () => {
@@ -137,12 +235,60 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
       lastFrameTimeRef.current = video.currentTime;
       let startTimeMs = performance.now();
       const result = landmarker.detectForVideo(video, startTimeMs);
+      const detector = objectDetectorRef.current;
+      if (detector && startTimeMs - lastObjectDetectionRef.current >= OBJECT_DETECTION_INTERVAL_MS) {
+        lastObjectDetectionRef.current = startTimeMs;
+        processObjects(detector.detectForVideo(video, startTimeMs));
+      }
       processResult(result);
+      const identity = identityRef.current;
+      if (identity && result.faceLandmarks.length === 1 && startTimeMs - lastIdentityCheckRef.current >= IDENTITY_CHECK_INTERVAL_MS) {
+        lastIdentityCheckRef.current = startTimeMs;
+        processIdentity(compareFace(identity.embedder, identity.enrolled, cropFace(video, video.videoWidth, video.videoHeight, result.faceLandmarks[0])));
+      }
+      evidenceRef.current.sample(video);
     }
 
     requestAnimationFrame(predictWebcam);
   };
 
+  const processObjects = (result: ObjectDetectorResult) => {
+    const inView = new Set<ObjectWarningType>();
+    result.detections.forEach(d => {
+      const type = OBJECT_LABELS[d.categories[0]?.categoryName];
+      if (type) inView.add(type);
+    });
+    objectsInViewRef.current = inView;
+
+    // An object must show up in consecutive passes, so a single misdetection doesn't warn
+    (Object.keys(OBJECT_WARNINGS) as ObjectWarningType[]).forEach(type => {
+      if (!inView.has(type)) {
+        objectPassesRef.current[type] = 0;
+        return;
+      }
+      objectPassesRef.current[type] += 1;
+      if (objectPassesRef.current[type] >= OBJECT_PASSES_TO_WARN) {
+        setStatus("WARNING");
+        attemptTriggerWarning(type, OBJECT_WARNINGS[type]);
+        objectPassesRef.current[type] = 0;
+      }
+    });
+  };
+
+  const processIdentity = (check: IdentityCheck) => {
+    identityLog?.record(check);
+    if (check.matched) {
+      identityMismatchesRef.current = 0;
+      return;
+    }
+    identityMismatchesRef.current += 1;
+    if (identityMismatchesRef.current >= MISMATCHES_TO_WARN) {
+      setStatus("WARNING");
+      attemptTriggerWarning('IDENTITY_MISMATCH', `Identity check failed! Face does not match the registered photo (${check.confidence}% match).`);
+      identityMismatchesRef.current = 0;
+    }
+  };
+
   const processResult = (result: any) => {
     const hasFace = result.faceLandmarks && result.faceLandmarks.length > 0;
     const { missing: missingThresh, away: awayThresh } = getThresholds();
@@ -152,7 +298,7 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
       multipleFacesFramesRef.current += 1;
       if (multipleFacesFramesRef.current > 10) {
         setStatus("WARNING");
-        attemptTriggerWarning("Collaboration detected! Multiple faces in frame.");
+        attemptTriggerWarning('MULTIPLE_FACES', "Collaboration detected! Multiple faces in frame.");
       }
     } else {
       multipleFacesFramesRef.current = 0;
@@ -163,9 +309,9 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
       missingFaceFramesRef.current += 1;
       if (missingFaceFramesRef.current > missingThresh) {
         setStatus("NO_FACE");
-        attemptTriggerWarning("Face not detected! Return immediately.");
+        attemptTriggerWarning('FACE_MISSING', "Face not detected! Return immediately.");
       }
-      onMetricsUpdate({
+      publishMetrics({
         isPresent: false, isLookingAtCamera: false, currentExpression: 'Unknown', confidenceLevel: 0,
         headPose: 'FORWARD', isLookingDown: false, isTalking: false, suspectedPhoneUse: false, suspicionLevel: 0
       });
@@ -175,37 +321,28 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
     }
 
     // ─── 3. Horizontal Gaze Tracking ───────────────────────────
-    const landmarks = result.faceLandmarks[0];
-    const noseTip = landmarks[1];
-    const leftEar = landmarks[234];
-    const rightEar = landmarks[454];
-
-    const faceWidth = Math.abs(rightEar.x - leftEar.x);
-    const noseRelX = (noseTip.x - leftEar.x) / faceWidth;
+    // Thresholds come from the candidate's calibration when there is one
+    const gaze = gazeRef.current;
+    const pose = measureHeadPose(result.faceLandmarks[0]);
 
-    const isLookingLeft = noseRelX < 0.35;
-    const isLookingRight = noseRelX > 0.65;
+    const isLookingLeft = pose.x < gaze.left;
+    const isLookingRight = pose.x > gaze.right;
     const isLookingAway = isLookingLeft || isLookingRight;
 
     if (isLookingAway) {
       lookingAwayFramesRef.current += 1;
       if (lookingAwayFramesRef.current > awayThresh) {
         setStatus("WARNING");
-        attemptTriggerWarning("Maintain eye contact! Don't look away.");
+        attemptTriggerWarning('GAZE', "Maintain eye contact! Don't look away.");
       }
     } else {
       lookingAwayFramesRef.current = 0;
     }
 
     // ─── 4. Head Pose Detection (Vertical) ────────────────────
-    const forehead = landmarks[10];   // Top of forehead
-    const chin = landmarks[152];      // Bottom of chin
-    const faceHeight = Math.abs(chin.y - forehead.y);
-    const noseRelY = (noseTip.y - forehead.y) / faceHeight;
-
-    // Normal noseRelY is ~0.55-0.65 when looking forward
-    const isHeadDown = noseRelY > 0.75;  // Head tilted down (phone/desk)
-    const isHeadUp = noseRelY < 0.40;    // Head tilted up
+    // Uncalibrated, pose.y is ~0.55-0.65 when looking forward
+    const isHeadDown = pose.y > gaze.down;  // Head tilted down (phone/desk)
+    const isHeadUp = pose.y < gaze.up;      // Head tilted up
 
     let headPose: 'FORWARD' | 'DOWN' | 'LEFT' | 'RIGHT' | 'UP' = 'FORWARD';
     if (isHeadDown) headPose = 'DOWN';
@@ -233,7 +370,7 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
     if (isTalking) {
       talkingFramesRef.current += 1;
       if (talkingFramesRef.current > 60) { // ~2s sustained talking
-        attemptTriggerWarning("Suspicious lip movement detected! No talking allowed.");
+        attemptTriggerWarning('TALKING', "Suspicious lip movement detected! No talking allowed.");
         talkingFramesRef.current = 30; // Reset partially to avoid spam
       }
     } else {
@@ -241,13 +378,16 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
     }
 
     // ─── 7. Phone Use Detection (Composite) ───────────────────
-    const suspectedPhoneUse = isHeadDown && isEyesLookingDown;
+    // Pose alone only suggests a phone; the object detector, when on, can see one
+    const objectsInView = objectsInViewRef.current;
+    const poseSuggestsPhone = isHeadDown && isEyesLookingDown;
+    const suspectedPhoneUse = poseSuggestsPhone || objectsInView.has('PHONE_DETECTED');
 
-    if (suspectedPhoneUse) {
+    if (poseSuggestsPhone) {
       phoneUseFramesRef.current += 1;
       if (phoneUseFramesRef.current > 15) { // ~0.5s sustained
         setStatus("WARNING");
-        attemptTriggerWarning("Suspected mobile phone usage! Keep your head up and face the screen.");
+        attemptTriggerWarning('PHONE_SUSPECTED', "Suspected mobile phone usage! Keep your head up and face the screen.");
         phoneUseFramesRef.current = 5; // Partial reset
       }
     } else {
@@ -258,7 +398,7 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
       lookingDownFramesRef.current += 1;
       if (lookingDownFramesRef.current > 20) {
         setStatus("WARNING");
-        attemptTriggerWarning("Head down detected! Look at the screen.");
+        attemptTriggerWarning('LOOKING_DOWN', "Head down detected! Look at the screen.");
         lookingDownFramesRef.current = 10;
       }
     } else {
@@ -291,6 +431,12 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
     if (isEyesLookingDown) frameSuspicion += 15;
     if (isTalking) frameSuspicion += 20;
     if (suspectedPhoneUse) frameSuspicion += 40;
+    if (objectsInView.has('BOOK_DETECTED')) frameSuspicion += 25;
+    if (objectsInView.has('SCREEN_DETECTED')) frameSuspicion += 25;
+    const audio = audioSignalsRef.current?.current;
+    if (audio?.voiceWithoutLips) frameSuspicion += 20;
+    if (audio?.voiceDuringQuestion) frameSuspicion += 15;
+    if (audio?.multipleVoices) frameSuspicion += 30;
     frameSuspicion = Math.min(100, frameSuspicion);
 
     suspicionAccumulatorRef.current.push(frameSuspicion);
@@ -298,16 +444,18 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
     const avgSuspicion = Math.round(suspicionAccumulatorRef.current.reduce((a, b) => a + b, 0) / suspicionAccumulatorRef.current.length);
 
     // ─── Status & Feedback Message ────────────────────────────
-    if (!isLookingAway && !isHeadDown && !suspectedPhoneUse) {
+    if (!isLookingAway && !isHeadDown && !suspectedPhoneUse && objectsInView.size === 0) {
       setStatus("OK");
       setFeedbackMsg("Monitoring Active");
     } else if (suspectedPhoneUse) {
       setFeedbackMsg("⚠ Phone usage suspected!");
     } else if (isHeadDown) {
       setFeedbackMsg("⚠ Head down — look at screen");
+    } else if (objectsInView.size > 0) {
+      setFeedbackMsg("⚠ Object in view — clear your desk");
     }
 
-    onMetricsUpdate({
+    publishMetrics({
       isPresent: true,
       isLookingAtCamera: !isLookingAway,
       currentExpression: expression,
@@ -320,23 +468,28 @@ export const CameraMonitor: React.FC<CameraMonitorProps> = ({ onWarning, onMetri
     });
   };
 
-  const attemptTriggerWarning = (msg: string) => {
+  const publishMetrics = (metrics: VisualMetrics) => {
+    onMetricsUpdate(metrics);
+    if (isAnsweringRef.current) timeline?.record(metrics);
+  };
+
+  const attemptTriggerWarning = (type: WarningType, msg: string) => {
     const now = Date.now();
     if (now - lastWarningTimeRef.current > 2000) {
-      triggerWarning(msg);
+      triggerWarning(type, msg);
       lastWarningTimeRef.current = now;
     } else {
       setFeedbackMsg(msg);
     }
   };
 
-  const triggerWarning = (msg: string) => {
+  const triggerWarning = (type: WarningType, msg: string) => {
     if (isLocked) return;
 
     warningCounterRef.current += 1;
     setWarnings(warningCounterRef.current);
     setFeedbackMsg(`STRIKE ${warningCounterRef.current}: ${msg}`);
-    onWarning(warningCounterRef.current);
+    onWarningRef.current({ type, message: msg, evidence: videoRef.current ? evidenceRef.current.collect(videoRef.current) : [] });
   };
 
   return (
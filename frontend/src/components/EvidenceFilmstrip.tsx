@@ -0,0 +1,48 @@
+import * as React from 'react';
+const { useState } = React;
+import { X } from 'lucide-react';
+import { EvidenceFrame } from '../types';
+
+interface EvidenceFilmstripProps {
+  frames: EvidenceFrame[];
+  warningAt: string; // Frame times are shown relative to the warning
+}
+
+const offset = (frame: EvidenceFrame, warningAt: string) => {
+  const seconds = Math.round((Date.parse(frame.timestamp) - Date.parse(warningAt)) / 1000);
+  return frame.trigger ? 'Trigger' : `${seconds}s`;
+};
+
+export const EvidenceFilmstrip: React.FC<EvidenceFilmstripProps> = ({ frames, warningAt }) => {
+  const [zoomed, setZoomed] = useState<EvidenceFrame | null>(null);
+
+  return (
+    <>
+      <div className="flex gap-2 overflow-x-auto">
+        {frames.map((frame, i) => (
+          <button
+            key={i}
+            onClick={() => setZoomed(frame)}
+            className={`relative shrink-0 rounded-md overflow-hidden border-2 transition-all hover:scale-105 ${frame.trigger ? 'border-red-500' : 'border-slate-200'}`}
+            title={new Date(frame.timestamp).toLocaleTimeString()}
+          >
+            <img src={frame.image} alt={`Evidence frame ${i + 1}`} className="h-16 w-auto block" />
+            <span className={`absolute bottom-0 inset-x-0 text-[9px] font-bold text-white text-center ${frame.trigger ? 'bg-red-600/80' : 'bg-slate-900/60'}`}>
+              {offset(frame, warningAt)}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {zoomed && (
+        <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[100] flex items-center justify-center p-4" onClick={() => setZoomed(null)}>
+          <div className="relative" onClick={(e) => e.stopPropagation()}>
+            <img src={zoomed.image} alt="Evidence frame" className="max-h-[80vh] max-w-[90vw] w-[640px] rounded-xl shadow-2xl" />
+            <p className="text-center text-xs text-slate-300 mt-2">{new Date(zoomed.timestamp).toLocaleString()}{zoomed.trigger ? ' · frame that triggered the warning' : ''}</p>
+            <button onClick={() => setZoomed(null)} className="absolute top-2 right-2 p-1.5 bg-slate-900/70 text-white rounded-lg"><X size={16} /></button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
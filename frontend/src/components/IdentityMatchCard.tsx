@@ -0,0 +1,45 @@
+import * as React from 'react';
+import { UserCheck, UserX } from 'lucide-react';
+import { IdentityReference, IdentitySummary } from '../types';
+
+interface IdentityMatchCardProps {
+  identity: IdentitySummary;
+}
+
+const REFERENCE_LABELS: Record<IdentityReference, string> = {
+  SELFIE: 'Selfie',
+  ID_CARD: 'ID photo',
+};
+
+export const IdentityMatchCard: React.FC<IdentityMatchCardProps> = ({ identity }) => {
+  const flagged = identity.mismatches > 0;
+  const stats = [
+    { label: 'Mean Match', value: `${identity.meanConfidence}%` },
+    { label: 'Lowest Match', value: `${identity.minConfidence}%` },
+    { label: 'Checks', value: identity.checks },
+    { label: 'Mismatches', value: identity.mismatches },
+  ];
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className={`p-4 border-b font-bold flex items-center gap-2 text-sm ${flagged ? 'bg-red-50 border-red-100 text-red-800' : 'bg-emerald-50 border-emerald-100 text-emerald-800'}`}>
+        {flagged ? <UserX size={16} /> : <UserCheck size={16} />} Identity Verification
+        <span className="ml-auto text-[10px] font-medium uppercase tracking-wider opacity-70">
+          Matched against {identity.references.map(r => REFERENCE_LABELS[r]).join(' + ')}
+        </span>
+      </div>
+      {identity.checks === 0 ? (
+        <p className="px-6 py-4 text-sm text-slate-400 italic">No face-match checks were made before the interview ended.</p>
+      ) : (
+        <div className="grid grid-cols-4 gap-4 px-6 py-4">
+          {stats.map(s => (
+            <div key={s.label}>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">{s.label}</p>
+              <p className={`text-xl font-black ${s.label === 'Mismatches' && flagged ? 'text-red-600' : 'text-slate-800'}`}>{s.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
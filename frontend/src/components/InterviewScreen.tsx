@@ -1,21 +1,34 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Candidate, Question, InterviewStatus, EvaluationResult, VisualMetrics, WarningEvent, RoleSettings } from '../types';
-import { startInterview, submitAnswer } from '../services/apiService';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AnswerInputMode, Candidate, Question, InterviewStatus, EvaluationResult, VisualMetrics, WarningEvent, RoleSettings, FollowUpTurn, JobPost, InterviewRun, InterviewSession, CameraWarning, HeadPoseCalibration } from '../types';
+import { checkpointInterview, getFollowUp, InterviewLockedError, resumeInterview, startInterview, submitAnswer, terminateInterview } from '../services/apiService';
+import { createWarning, getMaxWarnings, hasReachedWarningLimit } from '../services/warningPolicy';
+import { createSuspicionRecorder } from '../services/suspicionTimeline';
+import { createIdentityRecorder, IdentityPhoto } from '../services/faceIdentity';
+import { recordingPolicyOf } from '../services/clipService';
+import { resolveSttEngine, SttEngineType } from '../services/sttEngine';
+import { getLanguage, languageOf } from '../services/languages';
 import { useSpeech } from '../hooks/useSpeech';
 import { useFullscreenLockdown, LockdownViolation } from '../hooks/useFullscreenLockdown';
+import { useAudioProctor } from '../hooks/useAudioProctor';
+import { useAnswerRecorder } from '../hooks/useAnswerRecorder';
 import { CameraMonitor } from './CameraMonitor';
-import { Mic, Volume2, ShieldAlert, ShieldCheck, Loader2, AlertTriangle, Maximize, Lock, ArrowRight } from 'lucide-react';
+import { Mic, Volume2, ShieldAlert, ShieldCheck, Loader2, AlertTriangle, Maximize, Lock, ArrowRight, RefreshCw, Keyboard } from 'lucide-react';
 import { VisualizerOrb } from './VisualizerOrb';
 
 interface InterviewScreenProps {
   candidate: Candidate;
-  onComplete: (results: EvaluationResult[], warnings: WarningEvent[], status: 'COMPLETED' | 'TERMINATED') => void;
+  resumeFrom?: InterviewSession | null; // Checkpoint of an interrupted interview to continue
+  calibration?: HeadPoseCalibration | null;
+  onComplete: (results: EvaluationResult[], warnings: WarningEvent[], status: 'COMPLETED' | 'TERMINATED', run: InterviewRun) => void;
 }
 
 const MemoizedCameraMonitor = React.memo(CameraMonitor);
 
-export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onComplete }) => {
+// Matches the backend's transcript limit
+const MAX_ANSWER_LENGTH = 10000;
+
+export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, resumeFrom, calibration, onComplete }) => {
   const [status, setStatus] = useState<InterviewStatus>(InterviewStatus.IDLE);
   const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null);
   const [totalQuestions, setTotalQuestions] = useState(5);
@@ -25,8 +38,31 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
   const [voicePulse, setVoicePulse] = useState(0);
   const [isCameraReady, setIsCameraReady] = useState(false);
   const [settings, setSettings] = useState<RoleSettings | null>(null);
+  const [sessionId, setSessionId] = useState<number | null>(null);
+  // The job as loaded at start, so edits made mid-interview don't change the question bank
+  const [job, setJob] = useState<JobPost | undefined>(undefined);
+  // Lockdown strikes carried over from a resumed interview
+  const [restoredStrikes, setRestoredStrikes] = useState(0);
+  // Backend refusal shown when a locked-out candidate tries to start
+  const [lockedMessage, setLockedMessage] = useState<string | null>(null);
+  // Face tracking failed to load; the interview doesn't start unmonitored. Retrying remounts the monitor.
+  const [proctoringError, setProctoringError] = useState<string | null>(null);
+  const [monitorAttempt, setMonitorAttempt] = useState(0);
+  // Speech-to-text engine: undefined while it is being chosen, null when none works in this browser
+  const [sttEngine, setSttEngine] = useState<SttEngineType | null | undefined>(undefined);
+  const failedEnginesRef = useRef<SttEngineType[]>([]);
+  // Candidate asked to type their answers; the role can also require it for everyone
+  const [typingRequested, setTypingRequested] = useState(false);
+  // Camera metrics for the question being answered, follow-ups included
+  const timelineRef = useRef(createSuspicionRecorder());
+  // Face-match checks against the registered photos, for the whole interview
+  const identityLogRef = useRef(createIdentityRecorder());
+  // Set while a probe for missed key points is being asked; the answer is the original one it extends
+  const [followUp, setFollowUp] = useState<{ text: string; answer: string; turns: FollowUpTurn[]; inputMode: AnswerInputMode } | null>(null);
+  const answerBoxRef = useRef<HTMLTextAreaElement>(null);
 
   const warningLogRef = useRef<WarningEvent[]>([]);
+  const startedAtRef = useRef(new Date().toISOString());
   const statusRef = useRef<InterviewStatus>(status);
 
   useEffect(() => {
@@ -44,6 +80,8 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
     suspectedPhoneUse: false,
     suspicionLevel: 0,
   });
+  const visualMetricsRef = useRef(visualMetrics);
+  visualMetricsRef.current = visualMetrics;
 
   const {
     isListening,
@@ -52,8 +90,31 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
     startListening,
     stopListening,
     speak,
-    stopSpeaking
-  } = useSpeech();
+    stopSpeaking,
+    recognitionError
+  } = useSpeech(sttEngine ?? null, languageOf(settings ?? undefined), sessionId);
+
+  useEffect(() => {
+    resolveSttEngine().then(setSttEngine);
+  }, []);
+
+  // An engine that fails mid-interview is swapped for the next one that works here
+  useEffect(() => {
+    if (!recognitionError || !sttEngine) return;
+    console.warn(`Speech recognition (${sttEngine}) failed: ${recognitionError}`);
+    failedEnginesRef.current.push(sttEngine);
+    resolveSttEngine(failedEnginesRef.current).then(setSttEngine);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [recognitionError]);
+
+  // Answers are typed when the role requires it, the candidate asks, or no engine works in this browser
+  const isTyping = !!settings?.typedAnswers || typingRequested || sttEngine === null;
+
+  const retrySpeechRecognition = () => {
+    failedEnginesRef.current = [];
+    setSttEngine(undefined);
+    resolveSttEngine().then(setSttEngine);
+  };
 
   // ─── Fullscreen Lockdown ───────────────────────────────────
   const isLockdownActive = isCameraReady && status !== InterviewStatus.IDLE && status !== InterviewStatus.LOCKED;
@@ -62,11 +123,7 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
     if (statusRef.current === InterviewStatus.LOCKED) return;
 
     const warningType = violation.type === 'TAB_SWITCH' ? 'TAB_SWITCH' : 'FULLSCREEN_EXIT';
-    warningLogRef.current.push({
-      timestamp: violation.timestamp,
-      type: warningType,
-      message: violation.message,
-    });
+    warningLogRef.current.push(createWarning(warningType, violation.message, { timestamp: violation.timestamp }));
   }, []);
 
   const handleLockdownTerminate = useCallback(() => {
@@ -76,12 +133,12 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
     setStatus(InterviewStatus.LOCKED);
     stopListening();
     stopSpeaking();
-    localStorage.setItem(`blocked_${candidate.accessId}`, 'true');
+    terminateInterview(sessionId);
 
     setTimeout(() => {
-      onComplete(results, warningLogRef.current, 'TERMINATED');
+      onComplete(results, warningLogRef.current, 'TERMINATED', { sessionId, job, startedAt: startedAtRef.current, identity: identityLogRef.current.summarize() });
     }, 3000);
-  }, [stopListening, stopSpeaking, results, onComplete, candidate.accessId]);
+  }, [stopListening, stopSpeaking, results, onComplete, sessionId, job]);
 
   const {
     isFullscreen,
@@ -95,34 +152,80 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
     enabled: isLockdownActive,
     onViolation: handleLockdownViolation,
     onTerminate: handleLockdownTerminate,
-    maxViolations: settings?.proctoring.maxWarnings || 3,
+    maxViolations: getMaxWarnings(settings),
     graceMs: 1500,
+    initialViolations: restoredStrikes,
   });
 
   // ─── Interview Flow ─────────────────────────────────────────
   useEffect(() => {
-    if (isCameraReady && status === InterviewStatus.IDLE) {
+    if (isCameraReady && sttEngine !== undefined && status === InterviewStatus.IDLE) {
       const init = async () => {
         // Auto-enter fullscreen when interview begins
         await enterFullscreen();
         setStatus(InterviewStatus.LOADING_QUESTION);
-        const { question, totalQuestions, settings: loadedSettings } = await startInterview(candidate);
+        const lockOut = (err: InterviewLockedError) => {
+          statusRef.current = InterviewStatus.LOCKED;
+          setStatus(InterviewStatus.LOCKED);
+          setLockedMessage(err.message || 'Interview access is locked pending review.');
+          forceExitFullscreen();
+        };
+
+        if (resumeFrom) {
+          let resumed: Awaited<ReturnType<typeof resumeInterview>>;
+          try {
+            resumed = await resumeInterview(resumeFrom);
+          } catch (err) {
+            if (!(err instanceof InterviewLockedError)) throw err;
+            return lockOut(err);
+          }
+          warningLogRef.current = [...resumed.warnings];
+          if (resumeFrom.identity) identityLogRef.current.restore(resumeFrom.identity);
+          startedAtRef.current = resumeFrom.date;
+          setRestoredStrikes(resumed.warnings.filter(w => w.type === 'TAB_SWITCH' || w.type === 'FULLSCREEN_EXIT').length);
+          setResults(resumed.results);
+          setJob(resumed.job);
+          setTotalQuestions(resumed.totalQuestions);
+          setSessionId(resumed.sessionId);
+          if (resumed.settings) setSettings(resumed.settings);
+          if (!resumed.question) {
+            // Interrupted after the last answer; nothing left to ask
+            forceExitFullscreen();
+            onComplete(resumed.results, warningLogRef.current, 'COMPLETED', { sessionId: resumed.sessionId, job: resumed.job, startedAt: resumeFrom.date, identity: identityLogRef.current.summarize() });
+            return;
+          }
+          setCurrentQuestion(resumed.question);
+          setStatus(InterviewStatus.ASKING);
+          return;
+        }
+
+        let started: Awaited<ReturnType<typeof startInterview>>;
+        try {
+          started = await startInterview(candidate);
+        } catch (err) {
+          if (!(err instanceof InterviewLockedError)) throw err;
+          return lockOut(err);
+        }
+        const { question, totalQuestions, settings: loadedSettings, job: loadedJob, sessionId: startedSessionId } = started;
         setCurrentQuestion(question);
+        setJob(loadedJob);
+        startedAtRef.current = new Date().toISOString();
         setTotalQuestions(totalQuestions);
+        setSessionId(startedSessionId);
         if (loadedSettings) setSettings(loadedSettings);
         setStatus(InterviewStatus.ASKING);
       };
       init();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isCameraReady]);
+  }, [isCameraReady, sttEngine]);
 
   useEffect(() => {
     if (status === InterviewStatus.ASKING && currentQuestion) {
       resetTranscript();
       setLiveTranscript('');
 
-      speak(currentQuestion.text, {
+      speak(followUp ? followUp.text : currentQuestion.text, {
         onBoundary: () => {
           setVoicePulse(p => p + 1);
         },
@@ -133,78 +236,155 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
         }
       });
     }
-  }, [status, currentQuestion, speak, resetTranscript]);
+  }, [status, currentQuestion, followUp, speak, resetTranscript]);
 
   useEffect(() => {
-    if (status === InterviewStatus.LISTENING) {
+    if (status !== InterviewStatus.LISTENING) return;
+    if (isTyping) {
+      // Whatever was heard before switching stays in the box to be edited
+      stopListening();
+      answerBoxRef.current?.focus();
+    } else {
       startListening();
     }
-  }, [status, startListening]);
+  }, [status, isTyping, startListening, stopListening]);
 
   useEffect(() => {
-    if (status === InterviewStatus.LISTENING && isListening) {
+    if (status === InterviewStatus.LISTENING && isListening && !isTyping) {
       setLiveTranscript(transcript);
       const lower = transcript.toLowerCase();
-      if (lower.includes('please repeat') || lower.includes('repeat question')) {
+      if (getLanguage(settings?.language).repeatPhrases.some(phrase => lower.includes(phrase))) {
         stopListening();
         resetTranscript();
         setLiveTranscript('');
         setStatus(InterviewStatus.ASKING);
       }
     }
-  }, [transcript, status, isListening, stopListening, resetTranscript]);
+  }, [transcript, status, isListening, isTyping, stopListening, resetTranscript, settings?.language]);
 
   // ─── Camera Warning Handler ────────────────────────────────
-  const handleCameraWarning = useCallback((count: number) => {
+  const handleCameraWarning = useCallback((warning: CameraWarning) => {
     if (statusRef.current === InterviewStatus.LOCKED) return;
 
-    warningLogRef.current.push({
-      timestamp: new Date().toISOString(),
-      type: 'GAZE',
-      message: `Strike ${count}: Loss of eye contact.`
-    });
-
-    const maxWarnings = settings?.proctoring.maxWarnings || 3;
-    const totalWarnings = warningLogRef.current.length;
+    warningLogRef.current.push(createWarning(warning.type, warning.message, {
+      evidence: warning.evidence.length ? warning.evidence : undefined
+    }));
 
-    if (totalWarnings >= maxWarnings) {
+    // Warnings count by their type's weight, so one severe warning can use up several strikes
+    if (hasReachedWarningLimit(warningLogRef.current, settings)) {
       statusRef.current = InterviewStatus.LOCKED;
       setStatus(InterviewStatus.LOCKED);
       stopListening();
       stopSpeaking();
-      localStorage.setItem(`blocked_${candidate.accessId}`, 'true');
+      terminateInterview(sessionId);
       forceExitFullscreen();
 
       setTimeout(() => {
-        onComplete(results, warningLogRef.current, 'TERMINATED');
+        onComplete(results, warningLogRef.current, 'TERMINATED', { sessionId, job, startedAt: startedAtRef.current, identity: identityLogRef.current.summarize() });
       }, 3000);
     }
-  }, [stopListening, stopSpeaking, results, onComplete, candidate.accessId, settings, forceExitFullscreen]);
+  }, [stopListening, stopSpeaking, results, onComplete, settings, forceExitFullscreen, sessionId, job]);
+
+  // ─── Audio Proctoring ──────────────────────────────────────
+  const audioMonitoring = !!settings?.proctoring.audioMonitoring;
+  const { signalsRef: audioSignalsRef, error: audioError } = useAudioProctor({
+    enabled: audioMonitoring && isLockdownActive,
+    phase: status === InterviewStatus.ASKING ? 'ASKING' : status === InterviewStatus.LISTENING ? 'ANSWERING' : 'OTHER',
+    getLips: () => ({ faceInView: visualMetricsRef.current.isPresent, moving: visualMetricsRef.current.isTalking }),
+    onWarning: (type, message) => handleCameraWarning({ type, message, evidence: [] }),
+  });
+
+  useEffect(() => {
+    if (audioError) warningLogRef.current.push(createWarning('AUDIO_MONITORING_UNAVAILABLE', `${audioError} Other voices in the room were not checked.`));
+  }, [audioError]);
+
+  // ─── Answer Recording ──────────────────────────────────────
+  const { isRecording } = useAnswerRecorder({
+    enabled: recordingPolicyOf(settings).enabled && isLockdownActive,
+    sessionId,
+    questionId: currentQuestion?.id,
+    recording: status === InterviewStatus.LISTENING,
+  });
 
   const handleCameraStreamReady = useCallback(() => {
     setIsCameraReady(true);
   }, []);
 
+  const handleVisionUnavailable = useCallback((model: 'FACE' | 'OBJECT' | 'IDENTITY', message: string) => {
+    if (model === 'FACE') {
+      setProctoringError(message);
+      return;
+    }
+    // Face monitoring carries on; the reviewer is told which of the role's checks didn't run
+    warningLogRef.current.push(model === 'OBJECT'
+      ? createWarning('OBJECT_DETECTION_UNAVAILABLE', `${message} Phones, books and second screens were not checked.`)
+      : createWarning('IDENTITY_CHECK_UNAVAILABLE', `${message} The candidate's identity was not verified.`));
+  }, []);
+
+  // Stable for the memoized monitor; only changes once the role's settings arrive
+  const identityCheck = settings?.proctoring.identityCheck;
+  const identityPhotos = useMemo(() => {
+    if (!identityCheck) return undefined;
+    const photos: IdentityPhoto[] = [];
+    if (candidate.profilePhoto) photos.push({ reference: 'SELFIE', image: candidate.profilePhoto });
+    if (identityCheck === 'SELFIE_AND_ID' && candidate.idCardImage) photos.push({ reference: 'ID_CARD', image: candidate.idCardImage });
+    return photos;
+  }, [identityCheck, candidate.profilePhoto, candidate.idCardImage]);
+
+  useEffect(() => {
+    // Photos are only held in the browser after ProfileSetup, so a resumed interview may have none
+    if (identityPhotos && identityPhotos.length === 0) handleVisionUnavailable('IDENTITY', 'No registered photo to verify against.');
+  }, [identityPhotos, handleVisionUnavailable]);
+
   const processSubmission = async () => {
     if (!currentQuestion || !liveTranscript.trim()) return;
 
-    stopListening();
     setStatus(InterviewStatus.THINKING);
     setProcessingMsg("Analysing Response...");
+    // The last words spoken may still be transcribing; a typed answer is already in the box
+    const heard = await stopListening();
+    const reply = !isTyping && heard.trim() ? heard : liveTranscript;
+
+    // A follow-up answer is graded together with the answer it extends
+    const answer = followUp ? followUp.answer : reply;
+    const turns = followUp ? [...followUp.turns, { question: followUp.text, answer: reply }] : [];
+    // Any typed part makes the whole exchange graded as writing
+    const inputMode: AnswerInputMode = isTyping || followUp?.inputMode === 'typed' ? 'typed' : 'spoken';
 
     const { evaluation: result, nextQuestion } = await submitAnswer(
-      candidate,
+      job,
+      sessionId,
       currentQuestion,
-      liveTranscript,
+      answer,
+      results,
       visualMetrics,
-      settings || undefined
+      turns,
+      timelineRef.current.summarize(),
+      inputMode
     );
 
+    const probe = await getFollowUp(job, sessionId, currentQuestion, result);
+    if (probe) {
+      setProcessingMsg("One More Thing...");
+      setTimeout(() => {
+        setLiveTranscript('');
+        resetTranscript();
+        setFollowUp({ text: probe, answer, turns, inputMode });
+        setStatus(InterviewStatus.ASKING);
+      }, 1500);
+      return;
+    }
+
+    timelineRef.current.reset();
     const updatedResults = [...results, result];
     setResults(updatedResults);
     setProcessingMsg("Response Recorded.");
+    if (nextQuestion) {
+      checkpointInterview(candidate, { sessionId, job, startedAt: startedAtRef.current, identity: identityLogRef.current.summarize() }, updatedResults, warningLogRef.current, nextQuestion);
+    }
 
     setTimeout(() => {
+      setFollowUp(null);
       if (nextQuestion) {
         setLiveTranscript('');
         resetTranscript();
@@ -212,7 +392,7 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
         setStatus(InterviewStatus.ASKING);
       } else {
         forceExitFullscreen();
-        onComplete(updatedResults, warningLogRef.current, 'COMPLETED');
+        onComplete(updatedResults, warningLogRef.current, 'COMPLETED', { sessionId, job, startedAt: startedAtRef.current, identity: identityLogRef.current.summarize() });
       }
     }, 1500);
   };
@@ -230,7 +410,7 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
             <ShieldAlert size={56} className="text-red-500 animate-bounce" />
           </div>
           <h2 className="text-4xl font-black mb-4 tracking-tighter uppercase italic">Session Locked</h2>
-          <p className="text-xl text-red-200/80 mb-8 font-medium">Multiple integrity violations detected. Your session has been terminated for administrative review.</p>
+          <p className="text-xl text-red-200/80 mb-8 font-medium">{lockedMessage || 'Multiple integrity violations detected. Your session has been terminated for administrative review.'}</p>
           <div className="w-16 h-1 bg-red-500 mx-auto rounded-full opacity-50"></div>
         </div>
       </div>
@@ -264,13 +444,13 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
                   Strike Account
                 </p>
                 <p className="text-white text-xs font-black font-mono">
-                  {violationCount} / {settings?.proctoring.maxWarnings || 3}
+                  {violationCount} / {getMaxWarnings(settings)}
                 </p>
               </div>
               <div className="w-full bg-slate-800 rounded-full h-2.5 overflow-hidden">
                 <div
                   className="bg-red-500 h-full rounded-full transition-all duration-700 shadow-[0_0_10px_rgba(239,68,68,0.5)]"
-                  style={{ width: `${(violationCount / (settings?.proctoring.maxWarnings || 3)) * 100}%` }}
+                  style={{ width: `${(violationCount / getMaxWarnings(settings)) * 100}%` }}
                 />
               </div>
             </div>
@@ -290,7 +470,25 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
       )}
 
       {/* ── Camera Loading Overlay ─────────────────────────── */}
-      {!isCameraReady && (
+      {!isCameraReady && proctoringError && (
+        <div className="absolute inset-0 bg-white/80 dark:bg-slate-950/80 z-[60] flex flex-col items-center justify-center backdrop-blur-xl animate-fade-in p-8 text-center">
+          <div className="w-20 h-20 rounded-3xl bg-red-500/10 flex items-center justify-center mb-8 border border-red-500/20">
+            <ShieldAlert size={48} className="text-red-500" />
+          </div>
+          <h2 className="text-3xl font-black text-slate-900 dark:text-white tracking-tight">Proctoring Unavailable</h2>
+          <p className="text-slate-500 dark:text-slate-400 mt-2 max-w-md font-medium">
+            The interview can't start without camera monitoring. {proctoringError} Your network may be blocking it; contact the hiring team if retrying doesn't help.
+          </p>
+          <button
+            onClick={() => { setProctoringError(null); setMonitorAttempt(a => a + 1); }}
+            className="mt-8 px-8 py-4 bg-brand-600 hover:bg-brand-700 text-white font-black rounded-2xl transition-all flex items-center gap-3 shadow-xl shadow-brand-500/20 active:scale-95"
+          >
+            <RefreshCw size={18} /> Retry
+          </button>
+        </div>
+      )}
+
+      {!isCameraReady && !proctoringError && (
         <div className="absolute inset-0 bg-white/80 dark:bg-slate-950/80 z-[60] flex flex-col items-center justify-center backdrop-blur-xl animate-fade-in">
           <div className="w-20 h-20 rounded-3xl bg-brand-500/10 flex items-center justify-center mb-8 border border-brand-500/20">
             <Loader2 size={48} className="text-brand-500 animate-spin" />
@@ -394,9 +592,9 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
             <div className="relative z-10 w-full">
               {currentQuestion ? (
                 <div className="animate-fade-in">
-                  <span className="inline-block text-[10px] font-black text-brand-100 dark:text-brand-300/60 uppercase tracking-[0.3em] mb-4 bg-white/10 dark:bg-brand-800/40 px-3 py-1 rounded-lg">Question Queue</span>
-                  <h2 className="text-xl md:text-2xl font-bold text-white leading-relaxed tracking-tight italic">
-                    "{currentQuestion.text}"
+                  <span className="inline-block text-[10px] font-black text-brand-100 dark:text-brand-300/60 uppercase tracking-[0.3em] mb-4 bg-white/10 dark:bg-brand-800/40 px-3 py-1 rounded-lg">{followUp ? 'Follow-Up' : 'Question Queue'}</span>
+                  <h2 aria-live="polite" className="text-xl md:text-2xl font-bold text-white leading-relaxed tracking-tight italic">
+                    "{followUp ? followUp.text : currentQuestion.text}"
                   </h2>
                 </div>
               ) : (
@@ -424,30 +622,66 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
             ) : (
               <div className="flex flex-col h-full animate-fade-in">
                 <div className="flex justify-between items-center mb-6 shrink-0">
-                  <div className="flex items-center gap-3">
-                    <div className={`w-10 h-10 rounded-2xl flex items-center justify-center transition-all ${status === InterviewStatus.LISTENING ? "bg-red-500 text-white shadow-lg shadow-red-500/20 scale-110" : "bg-slate-100 dark:bg-slate-800 text-slate-400"}`}>
-                      <Mic size={20} className={status === InterviewStatus.LISTENING ? "animate-pulse" : ""} />
+                  {isTyping ? (
+                    <div className="flex items-center gap-3">
+                      <div className={`w-10 h-10 rounded-2xl flex items-center justify-center transition-all ${status === InterviewStatus.LISTENING ? "bg-brand-600 text-white shadow-lg shadow-brand-500/20 scale-110" : "bg-slate-100 dark:bg-slate-800 text-slate-400"}`}>
+                        <Keyboard size={20} />
+                      </div>
+                      <div>
+                        <h4 className="text-xs font-black text-slate-800 dark:text-white uppercase tracking-wider">{status === InterviewStatus.LISTENING ? "Typed Response" : "Editor Locked"}</h4>
+                        <p className="text-[10px] text-slate-500 dark:text-slate-400 font-bold uppercase tracking-widest">{status === InterviewStatus.LISTENING ? `${liveTranscript.length} / ${MAX_ANSWER_LENGTH}` : "Opens after the question"}</p>
+                      </div>
                     </div>
-                    <div>
-                      <h4 className="text-xs font-black text-slate-800 dark:text-white uppercase tracking-wider">{status === InterviewStatus.LISTENING ? "Recording High-Fi Audio" : "Input Monitor Idle"}</h4>
-                      <p className="text-[10px] text-slate-500 dark:text-slate-400 font-bold uppercase tracking-widest">{status === InterviewStatus.LISTENING ? "Sensitivity: High" : "Mic Standby"}</p>
+                  ) : (
+                    <div className="flex items-center gap-3">
+                      <div className={`w-10 h-10 rounded-2xl flex items-center justify-center transition-all ${status === InterviewStatus.LISTENING ? "bg-red-500 text-white shadow-lg shadow-red-500/20 scale-110" : "bg-slate-100 dark:bg-slate-800 text-slate-400"}`}>
+                        <Mic size={20} className={status === InterviewStatus.LISTENING ? "animate-pulse" : ""} />
+                      </div>
+                      <div>
+                        <h4 className="text-xs font-black text-slate-800 dark:text-white uppercase tracking-wider">{status === InterviewStatus.LISTENING ? "Recording High-Fi Audio" : "Input Monitor Idle"}</h4>
+                        <p className="text-[10px] text-slate-500 dark:text-slate-400 font-bold uppercase tracking-widest">{status === InterviewStatus.LISTENING ? "Sensitivity: High" : "Mic Standby"}</p>
+                      </div>
                     </div>
-                  </div>
+                  )}
 
-                  {status === InterviewStatus.LISTENING && (
+                  {status === InterviewStatus.LISTENING && !isTyping && (
                     <div className="flex gap-1">
                       {[1, 2, 3, 4].map(i => (
                         <div key={i} className="w-1 bg-red-500 rounded-full h-4 animate-bounce" style={{ animationDelay: `${i * 0.1}s`, height: `${8 + Math.random() * 12}px` }}></div>
                       ))}
                     </div>
                   )}
+
+                  {/* Candidates choose; a role that requires typing, or a browser without recognition, doesn't offer speech */}
+                  {!settings?.typedAnswers && sttEngine && (
+                    <button
+                      onClick={() => setTypingRequested(t => !t)}
+                      className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest px-3 py-2 rounded-xl border border-slate-200 dark:border-white/10 text-slate-500 dark:text-slate-400 hover:text-brand-600 dark:hover:text-brand-400 hover:border-brand-300 transition-colors"
+                    >
+                      {isTyping ? <><Mic size={14} /> Speak Instead</> : <><Keyboard size={14} /> Type Instead</>}
+                    </button>
+                  )}
                 </div>
 
+                {sttEngine === null && !settings?.typedAnswers && (
+                  <div className="flex items-center gap-3 mb-4 px-4 py-3 rounded-2xl bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900/40 text-xs text-amber-800 dark:text-amber-300 font-medium shrink-0">
+                    <AlertTriangle size={16} className="shrink-0" />
+                    <span className="flex-1">Your answers can't be transcribed in this browser{recognitionError ? ` (${recognitionError})` : ''}, so type them instead.</span>
+                    <button onClick={retrySpeechRecognition} className="flex items-center gap-1 font-black uppercase tracking-widest text-[10px] hover:underline shrink-0">
+                      <RefreshCw size={12} /> Retry Voice
+                    </button>
+                  </div>
+                )}
+
                 <div className="flex-1 relative group overflow-hidden bg-slate-50/50 dark:bg-slate-950/20 rounded-3xl p-6 border border-slate-100 dark:border-white/5 transition-colors group-focus-within:bg-transparent">
                   <textarea
+                    ref={answerBoxRef}
                     value={liveTranscript}
-                    readOnly
-                    placeholder={status === InterviewStatus.LISTENING ? "Voice detection active. Start speaking your response now..." : "Awaiting interviewer prompt. Please maintain focus."}
+                    readOnly={!isTyping || status !== InterviewStatus.LISTENING}
+                    onChange={(e) => setLiveTranscript(e.target.value)}
+                    maxLength={MAX_ANSWER_LENGTH}
+                    aria-label="Your answer"
+                    placeholder={status !== InterviewStatus.LISTENING ? "Awaiting interviewer prompt. Please maintain focus." : isTyping ? "Type your response here..." : "Voice detection active. Start speaking your response now..."}
                     className="w-full h-full bg-transparent border-none focus:ring-0 text-slate-800 dark:text-white text-lg font-medium resize-none leading-relaxed placeholder:text-slate-400 dark:placeholder:text-slate-600 transition-colors"
                   />
                   {/* Visual recording fade */}
@@ -479,11 +713,20 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
           {/* Camera Card */}
           <div className="glass-card bg-slate-950 rounded-3xl overflow-hidden shadow-2xl shrink-0 h-48 lg:h-auto lg:aspect-[4/3] relative group border-[6px] border-white/40 dark:border-white/5 transition-colors">
             <MemoizedCameraMonitor
+              key={monitorAttempt}
               onWarning={handleCameraWarning}
               onMetricsUpdate={setVisualMetrics}
               isLocked={false}
               onStreamReady={handleCameraStreamReady}
               sensitivity={settings?.proctoring.sensitivity || 'Medium'}
+              timeline={timelineRef.current}
+              isAnswering={status === InterviewStatus.LISTENING}
+              calibration={calibration}
+              objectDetection={!!settings?.proctoring.objectDetection}
+              onUnavailable={handleVisionUnavailable}
+              identityPhotos={identityPhotos}
+              identityLog={identityLogRef.current}
+              audioSignals={audioMonitoring ? audioSignalsRef : undefined}
             />
             {/* Visual HUD overlay */}
             <div className="absolute inset-0 pointer-events-none p-4 flex flex-col justify-between">
@@ -497,6 +740,14 @@ export const InterviewScreen: React.FC<InterviewScreenProps> = ({ candidate, onC
               </div>
             </div>
 
+            {isRecording && (
+              <div className="absolute top-4 right-4 z-10">
+                <span className="flex items-center gap-1.5 bg-red-600/90 text-white px-2 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-widest shadow-lg border border-white/20">
+                  <span className="w-1.5 h-1.5 rounded-full bg-white animate-pulse"></span> Rec
+                </span>
+              </div>
+            )}
+
             <div className="absolute bottom-4 right-4 z-10">
               <span className="bg-brand-500/90 text-white px-2 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-widest shadow-lg border border-white/20">
                 Encrypted Feed
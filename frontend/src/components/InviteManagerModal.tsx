@@ -0,0 +1,221 @@
+import * as React from 'react';
+const { useState, useEffect } = React;
+import { Ticket, X, AlertTriangle, Copy, Check, FileText, Download, Ban, Loader2 } from 'lucide-react';
+import { InviteCode, JobPost } from '../types';
+import { createInvites, getInviteLink, getInvites, parseEmailCsv, revokeInvite } from '../services/inviteService';
+
+interface InviteManagerModalProps {
+  job: JobPost;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<InviteCode['status'], string> = {
+  ACTIVE: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  USED: 'bg-slate-100 text-slate-500 border-slate-200',
+  EXPIRED: 'bg-amber-50 text-amber-700 border-amber-200',
+  REVOKED: 'bg-red-50 text-red-700 border-red-200'
+};
+
+export const InviteManagerModal: React.FC<InviteManagerModalProps> = ({ job, onClose }) => {
+  const [invites, setInvites] = useState<InviteCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const [count, setCount] = useState(1);
+  const [maxUses, setMaxUses] = useState(1);
+  const [expiresInHours, setExpiresInHours] = useState(72);
+  const [emailFile, setEmailFile] = useState<{ name: string; emails: string[]; invalid: string[] } | null>(null);
+
+  useEffect(() => {
+    getInvites(job.id)
+      .then(setInvites)
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [job.id]);
+
+  const handleEmailFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setEmailFile({ name: file.name, ...parseEmailCsv(await file.text()) });
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const created = await createInvites({
+        jobPostId: job.id,
+        count,
+        emails: emailFile?.emails || [],
+        maxUses,
+        expiresInHours
+      });
+      setInvites([...created, ...invites]);
+      setEmailFile(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (invite: InviteCode) => {
+    try {
+      await revokeInvite(invite.id);
+      setInvites(invites.map(i => i.id === invite.id ? { ...i, status: 'REVOKED', revokedAt: new Date().toISOString() } : i));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleCopy = (code: string) => {
+    navigator.clipboard.writeText(getInviteLink(code));
+    setCopied(code);
+    setTimeout(() => setCopied(null), 1500);
+  };
+
+  // Active codes with their links, for mail-merge
+  const handleExport = () => {
+    const rows = invites.filter(i => i.status === 'ACTIVE').map(i => [i.code, i.email || '', getInviteLink(i.code)].join(','));
+    const blob = new Blob([['code,email,link', ...rows].join('\n')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${job.title.trim().replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'job'}-invites.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const bulk = !!emailFile?.emails.length;
+  const canCreate = !creating && (bulk || count > 0);
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 w-full max-w-4xl max-h-[85vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden transition-colors">
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2"><Ticket size={18} className="text-indigo-500" /> Invites: {job.title}</h2>
+            <p className="text-xs text-slate-400 mt-1">Redeeming a code signs the candidate up for this role and uses it up.</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 dark:hover:text-white rounded-lg transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto min-h-0 space-y-6">
+          {/* Generator */}
+          <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-100 dark:border-slate-800 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {[
+                { label: 'Codes', suffix: bulk ? 'one per email' : 'to generate', value: count, set: setCount, min: 1, max: 500, disabled: bulk },
+                { label: 'Uses Per Code', suffix: maxUses === 1 ? 'single-use' : 'redemptions', value: maxUses, set: setMaxUses, min: 1, max: 1000, disabled: false },
+                { label: 'Expires After', suffix: 'hours (0 = never)', value: expiresInHours, set: setExpiresInHours, min: 0, max: 8760, disabled: false }
+              ].map(f => (
+                <div key={f.label}>
+                  <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">{f.label}</label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number" min={f.min} max={f.max}
+                      value={f.value}
+                      disabled={f.disabled}
+                      onChange={(e) => f.set(Math.max(f.min, Math.min(f.max, parseInt(e.target.value) || 0)))}
+                      className="w-24 p-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg outline-none focus:border-indigo-500 font-bold text-sm dark:text-white disabled:opacity-50"
+                    />
+                    <span className="text-[10px] text-slate-400 font-medium">{f.suffix}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="px-4 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:border-indigo-400 hover:text-indigo-600 flex items-center gap-2 cursor-pointer transition-all">
+                <FileText size={14} /> {emailFile ? emailFile.name : 'Emails From CSV'}
+                <input type="file" accept=".csv,.txt" className="hidden" onChange={handleEmailFile} />
+              </label>
+              {emailFile && (
+                <>
+                  <span className="text-xs font-bold text-emerald-600">{emailFile.emails.length} emails</span>
+                  {emailFile.invalid.length > 0 && <span className="text-xs font-bold text-amber-600" title={emailFile.invalid.join(', ')}>{emailFile.invalid.length} skipped</span>}
+                  <button onClick={() => setEmailFile(null)} className="text-xs text-slate-400 hover:text-slate-700">Clear</button>
+                </>
+              )}
+              <button
+                onClick={handleCreate}
+                disabled={!canCreate}
+                className={`ml-auto px-4 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold flex items-center gap-2 transition-all ${canCreate ? 'hover:bg-indigo-700 active:scale-95' : 'opacity-50 cursor-not-allowed'}`}
+              >
+                {creating ? <Loader2 size={14} className="animate-spin" /> : <Ticket size={14} />} Generate {bulk ? emailFile!.emails.length : count}
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/40 rounded-xl text-sm text-red-700 dark:text-red-400 flex items-center gap-2">
+              <AlertTriangle size={16} /> {error}
+            </div>
+          )}
+
+          {/* Issued codes */}
+          {loading ? (
+            <div className="flex justify-center py-8"><Loader2 size={24} className="animate-spin text-indigo-500" /></div>
+          ) : invites.length === 0 ? (
+            <p className="text-center text-sm text-slate-400 italic py-8">No invites issued for this role yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[10px] font-bold text-slate-400 uppercase tracking-widest text-left">
+                  <th className="pb-2">Code</th>
+                  <th className="pb-2">Email</th>
+                  <th className="pb-2">Uses</th>
+                  <th className="pb-2">Expires</th>
+                  <th className="pb-2">Status</th>
+                  <th className="pb-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                {invites.map(invite => (
+                  <tr key={invite.id} className="text-slate-700 dark:text-slate-300">
+                    <td className="py-2 font-mono font-bold">{invite.code}</td>
+                    <td className="py-2 text-xs">{invite.email || <span className="text-slate-400">Anyone</span>}</td>
+                    <td className="py-2 text-xs">{invite.useCount} / {invite.maxUses}</td>
+                    <td className="py-2 text-xs">{invite.expiresAt ? new Date(invite.expiresAt).toLocaleString() : 'Never'}</td>
+                    <td className="py-2">
+                      <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full border ${STATUS_STYLES[invite.status]}`}>{invite.status}</span>
+                    </td>
+                    <td className="py-2">
+                      {invite.status === 'ACTIVE' && (
+                        <div className="flex justify-end gap-1">
+                          <button onClick={() => handleCopy(invite.code)} className="p-1.5 text-slate-400 hover:text-indigo-600 transition-colors" title="Copy invite link">
+                            {copied === invite.code ? <Check size={14} className="text-emerald-500" /> : <Copy size={14} />}
+                          </button>
+                          <button onClick={() => handleRevoke(invite)} className="p-1.5 text-slate-400 hover:text-red-600 transition-colors" title="Revoke">
+                            <Ban size={14} />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-slate-100 dark:border-slate-800 flex justify-end gap-2 shrink-0">
+          <button
+            onClick={handleExport}
+            disabled={!invites.some(i => i.status === 'ACTIVE')}
+            className="px-5 py-2 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-sm font-bold flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={16} /> Export Active Links
+          </button>
+          <button onClick={onClose} className="px-5 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold hover:bg-indigo-700 transition-all">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
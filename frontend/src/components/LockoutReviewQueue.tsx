@@ -0,0 +1,208 @@
+import * as React from 'react';
+const { useState, useEffect } = React;
+import { ShieldAlert, ShieldCheck, RotateCcw, Ban, Loader2, AlertTriangle, Clock } from 'lucide-react';
+import { InterviewSession, LockoutReview, ReviewDecision } from '../types';
+import { decideReview, getReviews } from '../services/reviewService';
+import { EvidenceFilmstrip } from './EvidenceFilmstrip';
+import { IdentityMatchCard } from './IdentityMatchCard';
+import { getWarningLabel, getWarningSeverity, SEVERITY_STYLES } from '../services/warningPolicy';
+
+const REVIEW_STYLES: Record<LockoutReview, { label: string; className: string }> = {
+  PENDING: { label: 'Pending', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  UPHELD: { label: 'Upheld', className: 'bg-red-50 text-red-700 border-red-200' },
+  REINSTATED: { label: 'Reinstated', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  RETAKE_GRANTED: { label: 'Retake Granted', className: 'bg-indigo-50 text-indigo-700 border-indigo-200' }
+};
+
+const FILTERS: { label: string; review?: LockoutReview }[] = [
+  { label: 'Pending', review: 'PENDING' },
+  { label: 'Upheld', review: 'UPHELD' },
+  { label: 'All' }
+];
+
+// Offset from the start of the interview, e.g. +04:37
+const elapsed = (session: InterviewSession, timestamp: string) => {
+  const seconds = Math.max(0, Math.round((Date.parse(timestamp) - Date.parse(session.date)) / 1000));
+  return `+${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const LockoutReviewQueue: React.FC = () => {
+  const [filter, setFilter] = useState<LockoutReview | undefined>('PENDING');
+  const [sessions, setSessions] = useState<InterviewSession[]>([]);
+  const [selected, setSelected] = useState<InterviewSession | null>(null);
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [deciding, setDeciding] = useState<ReviewDecision | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    getReviews(filter)
+      .then(found => {
+        setSessions(found);
+        setSelected(found[0] || null);
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [filter]);
+
+  useEffect(() => {
+    setNote(selected?.reviewNote || '');
+  }, [selected?.id]);
+
+  const handleDecision = async (decision: ReviewDecision) => {
+    if (!selected) return;
+    setDeciding(decision);
+    setError(null);
+    try {
+      const updated = await decideReview(selected.id, decision, note);
+      // Decided sessions drop out of a filtered queue
+      const remaining = filter && updated.review !== filter
+        ? sessions.filter(s => s.id !== selected.id)
+        : sessions.map(s => s.id === selected.id ? updated : s);
+      setSessions(remaining);
+      setSelected(remaining.find(s => s.id === selected.id) || remaining[0] || null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const isOpen = selected?.review === 'PENDING' || selected?.review === 'UPHELD';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        {FILTERS.map(f => (
+          <button
+            key={f.label}
+            onClick={() => setFilter(f.review)}
+            className={`px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest transition-all ${filter === f.review ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-500 hover:text-slate-900'}`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700 flex items-center gap-2">
+          <AlertTriangle size={16} /> {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-16"><Loader2 size={28} className="animate-spin text-indigo-500" /></div>
+      ) : sessions.length === 0 ? (
+        <div className="bg-white rounded-xl border border-slate-200 p-16 text-center text-slate-400">
+          <ShieldCheck size={32} className="mx-auto mb-3 text-emerald-400" />
+          <p className="text-sm font-medium">No lockouts to review.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Queue */}
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden divide-y divide-slate-100 self-start">
+            {sessions.map(s => (
+              <button
+                key={s.id}
+                onClick={() => setSelected(s)}
+                className={`w-full text-left px-5 py-4 transition-colors ${selected?.id === s.id ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-bold text-slate-800 truncate">{s.candidate.name}</span>
+                  {s.review && (
+                    <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full border shrink-0 ${REVIEW_STYLES[s.review].className}`}>{REVIEW_STYLES[s.review].label}</span>
+                  )}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">{s.candidate.position || 'General Assessment'}</p>
+                <p className="text-[10px] text-slate-400 mt-1">{new Date(s.date).toLocaleString()} · {s.warnings.length} warning{s.warnings.length === 1 ? '' : 's'}</p>
+              </button>
+            ))}
+          </div>
+
+          {/* Case */}
+          {selected && (
+            <div className="lg:col-span-2 space-y-6">
+              <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-xl font-bold text-slate-800">{selected.candidate.name}</h3>
+                  <p className="text-sm text-slate-500">{selected.candidate.email} · {selected.candidate.position || 'General Assessment'}</p>
+                  <p className="text-xs text-slate-400 mt-2">
+                    {selected.results.length} answered · {Math.round(selected.durationSeconds / 60)} min · score {selected.overallScore}%
+                  </p>
+                </div>
+                {selected.reviewedAt && (
+                  <p className="text-xs text-slate-400 flex items-center gap-1"><Clock size={12} /> Reviewed {new Date(selected.reviewedAt).toLocaleString()}</p>
+                )}
+              </div>
+
+              {selected.identity && <IdentityMatchCard identity={selected.identity} />}
+
+              {/* Warning timeline */}
+              <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+                <div className="p-4 bg-red-50 border-b border-red-100 font-bold text-red-800 flex items-center gap-2 text-sm">
+                  <ShieldAlert size={16} /> Warning Timeline ({selected.warnings.length})
+                </div>
+                {selected.warnings.length === 0 ? (
+                  <p className="px-6 py-4 text-sm text-slate-400 italic">No warnings were saved with this session.</p>
+                ) : (
+                  <ol className="ml-8 my-4 border-l-2 border-red-100">
+                    {[...selected.warnings].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)).map((w, i) => (
+                      <li key={i} className="relative ml-6 mb-4 last:mb-0">
+                        <span className="absolute -left-[31px] top-1 w-3 h-3 rounded-full bg-red-400 border-2 border-white"></span>
+                        <div className="flex items-center gap-3 text-sm">
+                          <span className="text-[10px] font-mono text-slate-400 whitespace-nowrap" title={new Date(w.timestamp).toLocaleString()}>{elapsed(selected, w.timestamp)}</span>
+                          <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${SEVERITY_STYLES[getWarningSeverity(w)]}`} title={`${getWarningSeverity(w)} severity`}>{getWarningLabel(w.type)}</span>
+                          <span className="text-slate-600">{w.message}</span>
+                        </div>
+                        {w.evidence && w.evidence.length > 0 && (
+                          <div className="mt-2">
+                            <EvidenceFilmstrip frames={w.evidence} warningAt={w.timestamp} />
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+
+              {/* Decision */}
+              <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 space-y-4">
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  disabled={!isOpen}
+                  maxLength={2000}
+                  placeholder="Note for the record (optional)"
+                  className="w-full h-20 p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:border-indigo-500 resize-none disabled:opacity-60"
+                />
+                {isOpen ? (
+                  <div className="flex flex-wrap gap-2 justify-end">
+                    {([
+                      { decision: 'UPHOLD', label: 'Uphold Lockout', icon: <Ban size={16} />, className: 'bg-red-600 hover:bg-red-700', hidden: selected.review === 'UPHELD' },
+                      { decision: 'REINSTATE', label: 'Reinstate', icon: <ShieldCheck size={16} />, className: 'bg-emerald-600 hover:bg-emerald-700', hidden: false },
+                      { decision: 'RETAKE', label: 'Grant Retake', icon: <RotateCcw size={16} />, className: 'bg-indigo-600 hover:bg-indigo-700', hidden: false }
+                    ] as const).filter(a => !a.hidden).map(a => (
+                      <button
+                        key={a.decision}
+                        onClick={() => handleDecision(a.decision)}
+                        disabled={!!deciding}
+                        className={`px-5 py-2.5 text-white rounded-lg text-sm font-bold flex items-center gap-2 transition-all disabled:opacity-50 ${a.className}`}
+                      >
+                        {deciding === a.decision ? <Loader2 size={16} className="animate-spin" /> : a.icon} {a.label}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-slate-400 text-right">The lockout was lifted; this decision is final.</p>
+                )}
+                <p className="text-[10px] text-slate-400">Reinstating counts the answers given as a completed interview. A retake voids this session and lets the candidate start again.</p>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -15,11 +15,12 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onStart, onAdminLogin
   const [selectedJobId, setSelectedJobId] = useState<string>('');
 
   useEffect(() => {
-    const availableJobs = StorageService.getJobs();
-    setJobs(availableJobs);
-    if (availableJobs.length > 0) {
-      setSelectedJobId(availableJobs[0].id);
-    }
+    StorageService.getJobs('ACTIVE').then(availableJobs => {
+      setJobs(availableJobs);
+      if (availableJobs.length > 0) {
+        setSelectedJobId(availableJobs[0].id);
+      }
+    });
   }, []);
 
   const handleSubmit = (e: React.FormEvent) => {
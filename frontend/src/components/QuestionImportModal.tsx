@@ -0,0 +1,133 @@
+import * as React from 'react';
+const { useState } = React;
+import { Upload, X, AlertTriangle, CheckCircle, Copy, FileText } from 'lucide-react';
+import { Question } from '../types';
+import { formatFromFileName, ImportedQuestion, ImportRow, parseQuestionBank } from '../services/questionBank';
+
+interface QuestionImportModalProps {
+  existing: Question[];
+  onImport: (questions: ImportedQuestion[]) => void;
+  onClose: () => void;
+}
+
+export const QuestionImportModal: React.FC<QuestionImportModalProps> = ({ existing, onImport, onClose }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setRows([]);
+    setFileError(null);
+
+    const format = formatFromFileName(file.name);
+    if (!format) {
+      setFileError("Unsupported file type. Use .csv, .json or .md.");
+      return;
+    }
+    try {
+      setRows(parseQuestionBank(await file.text(), format, existing));
+    } catch (err: any) {
+      setFileError(err.message || "Could not read file.");
+    }
+  };
+
+  const importable = rows.filter(r => r.question && (includeDuplicates || !r.duplicate));
+  const errorCount = rows.filter(r => r.errors.length).length;
+  const duplicateCount = rows.filter(r => r.duplicate).length;
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 w-full max-w-4xl max-h-[85vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden transition-colors">
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2"><Upload size={18} className="text-indigo-500" /> Import Questions</h2>
+            <p className="text-xs text-slate-400 mt-1">CSV columns: text, topic, difficulty, referenceAnswer, keyPoints (separated by |), maxScore, maxFollowUps.</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 dark:hover:text-white rounded-lg transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto min-h-0 space-y-4">
+          <label className="flex items-center justify-center gap-3 w-full py-6 border-2 border-dashed border-slate-300 dark:border-slate-700 rounded-xl text-slate-500 dark:text-slate-400 font-bold text-sm cursor-pointer hover:border-indigo-400 hover:text-indigo-600 transition-all">
+            <FileText size={20} /> {fileName || 'Choose a .csv, .json or .md file'}
+            <input type="file" accept=".csv,.json,.md,.markdown" className="hidden" onChange={handleFile} />
+          </label>
+
+          {fileError && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/40 rounded-xl text-sm text-red-700 dark:text-red-400 flex items-center gap-2">
+              <AlertTriangle size={16} /> {fileError}
+            </div>
+          )}
+
+          {rows.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center gap-3 text-xs font-bold">
+                <span className="px-3 py-1 rounded-full bg-emerald-50 text-emerald-700 border border-emerald-200">{rows.length - errorCount} valid</span>
+                <span className="px-3 py-1 rounded-full bg-red-50 text-red-700 border border-red-200">{errorCount} with errors</span>
+                <span className="px-3 py-1 rounded-full bg-amber-50 text-amber-700 border border-amber-200">{duplicateCount} duplicates</span>
+                {duplicateCount > 0 && (
+                  <label className="flex items-center gap-2 ml-auto text-slate-500 dark:text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={includeDuplicates} onChange={e => setIncludeDuplicates(e.target.checked)} className="accent-indigo-600" />
+                    Import duplicates anyway
+                  </label>
+                )}
+              </div>
+
+              <table className="w-full text-left text-xs">
+                <thead>
+                  <tr className="text-[10px] uppercase tracking-widest text-slate-400 border-b border-slate-100 dark:border-slate-800">
+                    <th className="py-2 pr-2 w-12">Row</th>
+                    <th className="py-2 pr-2">Question</th>
+                    <th className="py-2 pr-2 w-20">Difficulty</th>
+                    <th className="py-2 pr-2 w-16">Points</th>
+                    <th className="py-2 w-56">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(r => (
+                    <tr key={r.row} className="border-b border-slate-50 dark:border-slate-800/50 align-top">
+                      <td className="py-2 pr-2 font-mono text-slate-400">{r.row}</td>
+                      <td className="py-2 pr-2 text-slate-700 dark:text-slate-300">{r.question?.text || <span className="italic text-slate-400">—</span>}</td>
+                      <td className="py-2 pr-2 text-slate-500">{r.question?.difficulty}</td>
+                      <td className="py-2 pr-2 text-slate-500">{r.question?.keyPoints?.length ?? ''}</td>
+                      <td className="py-2">
+                        {r.errors.length > 0 ? (
+                          <ul className="text-red-600 dark:text-red-400 space-y-0.5">
+                            {r.errors.map((err, i) => <li key={i} className="flex gap-1"><AlertTriangle size={12} className="shrink-0 mt-0.5" /> {err}</li>)}
+                          </ul>
+                        ) : r.duplicate ? (
+                          <span className="text-amber-600 flex items-center gap-1"><Copy size={12} /> {r.duplicate === 'existing' ? 'Already in this job' : 'Repeated in file'}</span>
+                        ) : (
+                          <span className="text-emerald-600 flex items-center gap-1"><CheckCircle size={12} /> Ready</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-slate-100 dark:border-slate-800 flex justify-end gap-2 shrink-0">
+          <button onClick={onClose} className="px-5 py-2 text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-800 rounded-lg text-sm font-bold transition-all">Cancel</button>
+          <button
+            onClick={() => onImport(importable.map(r => r.question!))}
+            disabled={importable.length === 0}
+            className={`px-5 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold flex items-center gap-2 transition-all ${importable.length === 0 ? 'opacity-50 cursor-not-allowed' : 'hover:bg-indigo-700 active:scale-95'}`}
+          >
+            <Upload size={16} /> Import {importable.length} Question{importable.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import * as React from 'react';
+const { useState } = React;
+import { Sparkles, X, Loader2, AlertTriangle, Plus, Copy } from 'lucide-react';
+import { JobPost } from '../types';
+import { generateQuestionSet, MAX_GENERATED_QUESTIONS } from '../services/authoringService';
+import { ImportedQuestion, isDuplicateQuestion } from '../services/questionBank';
+
+interface QuestionSetGeneratorModalProps {
+  job: JobPost;
+  onImport: (questions: ImportedQuestion[]) => void;
+  onClose: () => void;
+}
+
+export const QuestionSetGeneratorModal: React.FC<QuestionSetGeneratorModalProps> = ({ job, onImport, onClose }) => {
+  const [count, setCount] = useState(5);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<{ question: ImportedQuestion; selected: boolean; duplicate: boolean }[]>([]);
+
+  const handleGenerate = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const questions = await generateQuestionSet(job, count);
+      setDrafts(questions.map(question => {
+        const duplicate = isDuplicateQuestion(question.text, job.questions);
+        return { question, selected: !duplicate, duplicate };
+      }));
+    } catch (err: any) {
+      setError(err.message || "Generation failed.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDraft = (index: number, patch: Partial<{ question: ImportedQuestion; selected: boolean }>) =>
+    setDrafts(drafts.map((d, i) => i === index ? { ...d, ...patch } : d));
+
+  const selected = drafts.filter(d => d.selected && d.question.text.trim());
+  const hasDescription = !!job.description?.trim();
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[100] flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 w-full max-w-3xl max-h-[85vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden transition-colors">
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between shrink-0">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2"><Sparkles size={18} className="text-indigo-500" /> Generate From Description</h2>
+            <p className="text-xs text-slate-400 mt-1">Drafts questions, reference answers and key points from the role's experience summary.</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 dark:hover:text-white rounded-lg transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto min-h-0 space-y-4">
+          <div className="flex items-center gap-3">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Questions</label>
+            <input
+              type="number" min="1" max={MAX_GENERATED_QUESTIONS}
+              value={count}
+              onChange={(e) => setCount(Math.max(1, Math.min(MAX_GENERATED_QUESTIONS, parseInt(e.target.value) || 1)))}
+              className="w-20 p-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg outline-none focus:border-indigo-500 font-bold text-sm dark:text-white"
+            />
+            <button
+              onClick={handleGenerate}
+              disabled={loading || !hasDescription}
+              className={`px-4 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold flex items-center gap-2 transition-all ${loading || !hasDescription ? 'opacity-50 cursor-not-allowed' : 'hover:bg-indigo-700 active:scale-95'}`}
+            >
+              {loading ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />} {drafts.length ? 'Regenerate' : 'Generate'}
+            </button>
+            {!hasDescription && <span className="text-xs text-amber-600">Add an experience summary to the role first.</span>}
+          </div>
+
+          {error && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/40 rounded-xl text-sm text-red-700 dark:text-red-400 flex items-center gap-2">
+              <AlertTriangle size={16} /> {error}
+            </div>
+          )}
+
+          {drafts.map((d, i) => (
+            <div key={i} className={`p-4 rounded-xl border transition-all ${d.selected ? 'border-indigo-200 dark:border-indigo-500/30 bg-indigo-50/40 dark:bg-indigo-500/5' : 'border-slate-100 dark:border-slate-800 opacity-60'}`}>
+              <div className="flex gap-3 items-start">
+                <input type="checkbox" checked={d.selected} onChange={e => updateDraft(i, { selected: e.target.checked })} className="mt-2 w-4 h-4 accent-indigo-600 cursor-pointer" />
+                <div className="flex-1 space-y-2">
+                  <textarea
+                    className="w-full border border-slate-200 dark:border-slate-700 rounded-lg p-2 text-sm outline-none bg-white dark:bg-slate-800 focus:border-indigo-400 font-medium text-slate-800 dark:text-slate-200"
+                    value={d.question.text}
+                    onChange={(e) => updateDraft(i, { question: { ...d.question, text: e.target.value } })}
+                  />
+                  <div className="flex flex-wrap gap-2 text-[10px] font-bold uppercase tracking-wider">
+                    <span className="px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-slate-500">{d.question.difficulty}</span>
+                    <span className="px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-slate-500">{d.question.topic}</span>
+                    <span className="px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-slate-500">{d.question.keyPoints?.length || 0} key points</span>
+                    {d.duplicate && <span className="px-2 py-0.5 rounded bg-amber-50 text-amber-700 flex items-center gap-1"><Copy size={10} /> Already in this job</span>}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-slate-100 dark:border-slate-800 flex justify-end gap-2 shrink-0">
+          <button onClick={onClose} className="px-5 py-2 text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-800 rounded-lg text-sm font-bold transition-all">Cancel</button>
+          <button
+            onClick={() => onImport(selected.map(d => ({ ...d.question, text: d.question.text.trim() })))}
+            disabled={selected.length === 0}
+            className={`px-5 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold flex items-center gap-2 transition-all ${selected.length === 0 ? 'opacity-50 cursor-not-allowed' : 'hover:bg-indigo-700 active:scale-95'}`}
+          >
+            <Plus size={16} /> Add {selected.length} Question{selected.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
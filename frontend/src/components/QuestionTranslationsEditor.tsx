@@ -0,0 +1,96 @@
+import * as React from 'react';
+const { useState } = React;
+import { Languages, Plus, Trash2 } from 'lucide-react';
+import { Question, QuestionTranslation } from '../types';
+import { getLanguage, LANGUAGES } from '../services/languages';
+
+interface QuestionTranslationsEditorProps {
+  question: Question;
+  jobLanguage: string;
+  onChange: (translations: Question['translations']) => void;
+}
+
+// Key points are edited one per line; blank fields fall back to the original question's.
+// Blank lines are kept while typing and dropped when the question is asked.
+const toKeyPoints = (text: string) => text.trim() ? text.split('\n') : undefined;
+
+export const QuestionTranslationsEditor: React.FC<QuestionTranslationsEditorProps> = ({ question, jobLanguage, onChange }) => {
+  const translations = question.translations || {};
+  const missing = LANGUAGES.filter(l => !translations[l.code]);
+  const [adding, setAdding] = useState(missing.find(l => l.code === jobLanguage)?.code || missing[0]?.code || '');
+
+  const update = (code: string, changes: Partial<QuestionTranslation>) =>
+    onChange({ ...translations, [code]: { ...translations[code], ...changes } });
+
+  const remove = (code: string) => {
+    const { [code]: _removed, ...rest } = translations;
+    onChange(Object.keys(rest).length ? rest : undefined);
+  };
+
+  const add = () => {
+    if (!adding) return;
+    onChange({ ...translations, [adding]: { text: '' } });
+    setAdding(missing.find(l => l.code !== adding)?.code || '');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest">Translations</label>
+        {missing.length > 0 && (
+          <div className="flex items-center gap-2">
+            <select
+              value={adding}
+              onChange={(e) => setAdding(e.target.value)}
+              className="p-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold outline-none focus:border-indigo-500"
+            >
+              {missing.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+            </select>
+            <button
+              onClick={add}
+              className="px-3 py-1.5 text-xs font-bold text-indigo-600 hover:bg-indigo-50 rounded-lg flex items-center gap-1.5 transition-all"
+            >
+              <Plus size={14} /> Add
+            </button>
+          </div>
+        )}
+      </div>
+
+      {Object.entries(translations).map(([code, t]) => (
+        <div key={code} className="p-4 bg-slate-50/50 rounded-xl border border-slate-100 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold text-slate-700 flex items-center gap-2">
+              <Languages size={14} className="text-indigo-500" /> {getLanguage(code).label}
+              {code === jobLanguage && <span className="text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600">Asked</span>}
+            </span>
+            <button onClick={() => remove(code)} className="p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all">
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <textarea
+            value={t.text}
+            onChange={(e) => update(code, { text: e.target.value })}
+            placeholder={question.text}
+            className="w-full border border-slate-200 rounded-lg p-3 text-sm outline-none focus:border-indigo-500 bg-white min-h-[60px] font-medium"
+          />
+          <textarea
+            value={t.referenceAnswer || ''}
+            onChange={(e) => update(code, { referenceAnswer: e.target.value || undefined })}
+            placeholder="Reference answer in this language (blank = use the original)"
+            className="w-full border border-slate-200 rounded-lg p-3 text-sm outline-none focus:border-indigo-500 bg-white h-20"
+          />
+          <textarea
+            value={(t.keyPoints || []).join('\n')}
+            onChange={(e) => update(code, { keyPoints: toKeyPoints(e.target.value) })}
+            placeholder={`Key points, one per line (blank = use the original)${question.keyPoints?.length ? `\n${question.keyPoints.join('\n')}` : ''}`}
+            className="w-full border border-slate-200 rounded-lg p-3 text-xs outline-none focus:border-indigo-500 bg-white h-20 font-medium"
+          />
+        </div>
+      ))}
+
+      {Object.keys(translations).length === 0 && (
+        <p className="text-[10px] text-slate-400 italic">Asked as written in every language until a translation is added.</p>
+      )}
+    </div>
+  );
+};
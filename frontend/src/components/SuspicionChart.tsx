@@ -0,0 +1,63 @@
+import * as React from 'react';
+import { SuspicionTimeline } from '../types';
+
+interface SuspicionChartProps {
+  timeline: SuspicionTimeline;
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+
+export const SuspicionChart: React.FC<SuspicionChartProps> = ({ timeline }) => {
+  const { samples, bucketSeconds } = timeline;
+  const span = Math.max(1, samples.length);
+  const x = (i: number) => (i / span) * WIDTH;
+  const y = (value: number) => HEIGHT - (Math.min(100, value) / 100) * HEIGHT;
+  const line = samples.map((s, i) => `${x(i + 0.5).toFixed(1)},${y(s.suspicion).toFixed(1)}`).join(' ');
+
+  const stats = [
+    { label: 'Looking Away', value: `${timeline.lookingAwayPct}%`, alert: timeline.lookingAwayPct >= 20 },
+    { label: 'Peak Suspicion', value: `${timeline.peakSuspicion}%`, alert: timeline.peakSuspicion >= 60 },
+    { label: 'Face Missing', value: `${timeline.faceMissingSeconds}s`, alert: timeline.faceMissingSeconds >= 3 },
+    { label: 'Talking', value: `${timeline.talkingPct}%`, alert: false },
+    { label: 'Phone', value: `${timeline.phonePct}%`, alert: timeline.phonePct > 0 },
+  ];
+
+  return (
+    <div className="bg-slate-50 dark:bg-slate-800/50 p-4 rounded-xl border border-slate-100 dark:border-slate-800 transition-colors">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest">Suspicion While Answering</p>
+        <span className="text-[10px] text-slate-400 font-mono">{timeline.durationSeconds}s</span>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-20 bg-white dark:bg-slate-900 rounded-lg border border-slate-100 dark:border-slate-800">
+        {samples.map((s, i) => (s.faceMissing || s.away) && (
+          <rect
+            key={i}
+            x={x(i)} y={0} width={x(1) + 0.5} height={HEIGHT}
+            className={s.faceMissing ? 'fill-red-500/20' : 'fill-amber-400/20'}
+          >
+            <title>{`${s.t.toFixed(0)}s: ${s.faceMissing ? 'face missing' : 'looking away'}`}</title>
+          </rect>
+        ))}
+        <line x1={0} x2={WIDTH} y1={y(60)} y2={y(60)} className="stroke-red-300" strokeDasharray="3 3" strokeWidth={0.5} />
+        <polyline points={line} fill="none" className="stroke-indigo-500" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      <div className="flex items-center gap-3 mt-1 text-[9px] text-slate-400">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-amber-400/40"></span> Away</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-red-500/30"></span> No face</span>
+        <span className="ml-auto">{bucketSeconds}s per sample</span>
+      </div>
+
+      <div className="grid grid-cols-5 gap-1.5 mt-3">
+        {stats.map(s => (
+          <div key={s.label} className="text-center">
+            <span className={`block text-sm font-black ${s.alert ? 'text-red-500' : 'text-slate-700 dark:text-slate-200'}`}>{s.value}</span>
+            <span className="block text-[8px] font-bold text-slate-400 uppercase tracking-wider leading-tight">{s.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
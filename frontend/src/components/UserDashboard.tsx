@@ -7,16 +7,21 @@ import {
   ChevronRight, 
   Activity, 
   Award,
-  Zap
+  Zap,
+  PlayCircle,
+  ShieldAlert
 } from 'lucide-react';
 import { StorageService } from '../services/storageService';
 import { InterviewSession } from '../types';
 
 interface UserDashboardProps {
   candidateId: number;
+  resumable?: InterviewSession | null;
+  onResume?: () => void;
+  lockedOut?: boolean; // Last interview was terminated and awaits admin review
 }
 
-export const UserDashboard: React.FC<UserDashboardProps> = ({ candidateId }) => {
+export const UserDashboard: React.FC<UserDashboardProps> = ({ candidateId, resumable, onResume, lockedOut }) => {
   const [sessions, setSessions] = React.useState<InterviewSession[]>([]);
   const [loading, setLoading] = React.useState(true);
 
@@ -48,6 +53,33 @@ export const UserDashboard: React.FC<UserDashboardProps> = ({ candidateId }) =>
         <p className="text-slate-500 dark:text-slate-400 font-medium">Monitoring your individual performance and career growth.</p>
       </header>
 
+      {/* Lockout */}
+      {lockedOut && (
+        <div className="glass-card p-6 rounded-[2rem] border border-red-500/30 flex items-center gap-4">
+          <ShieldAlert size={28} className="text-red-500 shrink-0" />
+          <div>
+            <p className="text-[10px] font-bold text-red-500 uppercase tracking-widest mb-1">Interview Access Locked</p>
+            <p className="text-sm text-slate-600 dark:text-slate-300 font-medium">Your last interview was stopped for proctoring violations and is being reviewed. You can interview again once an administrator lifts the lock.</p>
+          </div>
+        </div>
+      )}
+
+      {/* Interrupted Interview; a lockout rules out carrying on */}
+      {resumable && onResume && !lockedOut && (
+        <div className="glass-card p-6 rounded-[2rem] border border-indigo-500/30 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <p className="text-[10px] font-bold text-indigo-500 uppercase tracking-widest mb-1">Interview In Progress</p>
+            <h3 className="font-bold text-slate-800 dark:text-slate-200">{resumable.candidate?.position || 'Standard Assessment'}</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">
+              {resumable.results.length} answered · {resumable.warnings.length} warning{resumable.warnings.length === 1 ? '' : 's'} · started {new Date(resumable.date).toLocaleString()}
+            </p>
+          </div>
+          <button onClick={onResume} className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-2xl text-sm font-bold flex items-center gap-2 transition-all active:scale-95">
+            <PlayCircle size={18} /> Resume Interview
+          </button>
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {stats.map((stat, i) => (
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { completeClip, startClip, uploadClipChunk } from '../services/clipService';
+
+// Records camera and microphone while the candidate answers, one clip per answer or follow-up
+// answer, so reviewers can check the transcript against what was actually said. Chunks are
+// uploaded as the recorder produces them, in order, so little is lost if the tab closes.
+
+interface UseAnswerRecorderOptions {
+    enabled: boolean;          // Holds the camera and microphone open for the interview
+    sessionId: number | null;  // Browser-only interviews aren't recorded
+    questionId?: number;
+    recording: boolean;        // True for each answering window
+}
+
+interface UseAnswerRecorderReturn {
+    isRecording: boolean;
+}
+
+const CHUNK_MS = 5000;
+const VIDEO_BITS_PER_SECOND = 500_000;
+const AUDIO_BITS_PER_SECOND = 64_000;
+// In order of preference; Safari only records mp4
+const MIME_TYPES = ['video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+const pickMimeType = (): string | undefined => MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t));
+
+export function useAnswerRecorder({ enabled, sessionId, questionId, recording }: UseAnswerRecorderOptions): UseAnswerRecorderReturn {
+    const [stream, setStream] = useState<MediaStream | null>(null);
+    const [isRecording, setIsRecording] = useState(false);
+
+    useEffect(() => {
+        if (!enabled || sessionId === null || typeof MediaRecorder === 'undefined') return;
+        let isActive = true;
+        let acquired: MediaStream | null = null;
+
+        navigator.mediaDevices.getUserMedia({ video: { width: 640, height: 480 }, audio: true })
+            .then(s => {
+                if (!isActive) return s.getTracks().forEach(t => t.stop());
+                acquired = s;
+                setStream(s);
+            })
+            .catch(err => console.warn("Answer recording unavailable:", err));
+
+        return () => {
+            isActive = false;
+            acquired?.getTracks().forEach(t => t.stop());
+            setStream(null);
+        };
+    }, [enabled, sessionId]);
+
+    useEffect(() => {
+        if (!recording || !stream || sessionId === null || questionId === undefined) return;
+        const mimeType = pickMimeType();
+        if (!mimeType) return;
+
+        const recorder = new MediaRecorder(stream, {
+            mimeType,
+            videoBitsPerSecond: VIDEO_BITS_PER_SECOND,
+            audioBitsPerSecond: AUDIO_BITS_PER_SECOND
+        });
+        const startedAt = Date.now();
+        let clipId = 0;
+        let chunkCount = 0;
+        // Chunks wait on the clip being opened and on each other, so they arrive in order
+        let upload = startClip(sessionId, questionId, mimeType).then(id => { clipId = id; });
+
+        recorder.ondataavailable = (e) => {
+            if (!e.data.size) return;
+            const index = chunkCount++;
+            upload = upload.then(() => uploadClipChunk(clipId, index, e.data));
+        };
+        recorder.onstop = () => {
+            setIsRecording(false);
+            const durationSeconds = (Date.now() - startedAt) / 1000;
+            upload
+                .then(() => completeClip(clipId, chunkCount, durationSeconds))
+                .catch(err => console.warn("Answer recording not saved:", err));
+        };
+
+        recorder.start(CHUNK_MS);
+        setIsRecording(true);
+
+        return () => {
+            if (recorder.state !== 'inactive') recorder.stop();
+        };
+    }, [recording, stream, sessionId, questionId]);
+
+    return { isRecording };
+}
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from 'react';
+import { WarningType } from '../types';
+
+// Listens to the microphone alongside speech recognition, which only keeps the transcript. Flags
+// a voice while the candidate's lips are still, talking while a question is read out, and voices
+// at two clearly different pitches, which usually means a second speaker.
+
+export type AudioPhase = 'ASKING' | 'ANSWERING' | 'OTHER';
+
+export interface AudioSignals {
+    voice: boolean;              // Speech-band energy well above the room's noise floor
+    voiceWithoutLips: boolean;   // Voice while the face is in view with lips still
+    voiceDuringQuestion: boolean;
+    multipleVoices: boolean;
+}
+
+interface UseAudioProctorOptions {
+    enabled: boolean;
+    phase: AudioPhase;
+    // Latest lip state from the camera monitor
+    getLips: () => { faceInView: boolean; moving: boolean };
+    onWarning: (type: WarningType, message: string) => void;
+}
+
+interface UseAudioProctorReturn {
+    signalsRef: React.MutableRefObject<AudioSignals>;
+    error: string | null;
+}
+
+const TICK_MS = 100;
+const FFT_SIZE = 2048;
+const SPEECH_BAND_HZ = [300, 3400];
+const VOICE_MARGIN_DB = 12;         // Above the noise floor
+const MIN_VOICE_DB = -70;
+const FLOOR_RISE = 0.005;           // The floor falls at once but rises slowly, so speech doesn't raise it
+const PITCH_RANGE_HZ = [75, 400];
+const MIN_PITCH_CLARITY = 0.5;
+
+const VOICE_WITHOUT_LIPS_MS = 2000;
+const VOICE_DURING_QUESTION_MS = 3000;
+// Two speakers: pitch samples from the last few seconds split into two groups this far apart
+const PITCH_WINDOW_MS = 8000;
+const MIN_PITCH_SAMPLES = 30;
+const MIN_GROUP_SHARE = 0.25;
+const SPEAKER_PITCH_RATIO = 1.35;
+const WARNING_COOLDOWN_MS = 10000;
+
+const QUIET: AudioSignals = { voice: false, voiceWithoutLips: false, voiceDuringQuestion: false, multipleVoices: false };
+
+/** Fundamental frequency of the frame by autocorrelation, or null if it isn't clearly voiced. */
+const detectPitch = (samples: Float32Array, sampleRate: number): number | null => {
+    const minLag = Math.floor(sampleRate / PITCH_RANGE_HZ[1]);
+    const maxLag = Math.min(samples.length - 1, Math.ceil(sampleRate / PITCH_RANGE_HZ[0]));
+    let energy = 0;
+    for (let i = 0; i < samples.length; i++) energy += samples[i] * samples[i];
+    if (energy === 0) return null;
+
+    const correlations: number[] = [];
+    let best = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        let sum = 0;
+        for (let i = 0; i + lag < samples.length; i++) sum += samples[i] * samples[i + lag];
+        const c = sum / energy;
+        correlations.push(c);
+        best = Math.max(best, c);
+    }
+    if (best < MIN_PITCH_CLARITY) return null;
+    // The first peak close to the best one, so a peak at twice the period isn't read as an octave down
+    let i = correlations.findIndex(c => c >= best * 0.9);
+    while (i + 1 < correlations.length && correlations[i + 1] > correlations[i]) i++;
+    return sampleRate / (minLag + i);
+};
+
+/** Whether the pitches fall into two well-separated groups of reasonable size. */
+const hasTwoSpeakers = (pitches: number[]): boolean => {
+    if (pitches.length < MIN_PITCH_SAMPLES) return false;
+    const sorted = [...pitches].sort((a, b) => a - b);
+    const minGroup = Math.ceil(sorted.length * MIN_GROUP_SHARE);
+    for (let i = minGroup; i <= sorted.length - minGroup; i++) {
+        if (sorted[i] / sorted[i - 1] >= SPEAKER_PITCH_RATIO) return true;
+    }
+    return false;
+};
+
+export function useAudioProctor({ enabled, phase, getLips, onWarning }: UseAudioProctorOptions): UseAudioProctorReturn {
+    const signalsRef = useRef<AudioSignals>(QUIET);
+    const [error, setError] = useState<string | null>(null);
+
+    // Read from the analysis interval, which keeps the closure it started with
+    const phaseRef = useRef(phase);
+    phaseRef.current = phase;
+    const getLipsRef = useRef(getLips);
+    getLipsRef.current = getLips;
+    const onWarningRef = useRef(onWarning);
+    onWarningRef.current = onWarning;
+
+    useEffect(() => {
+        if (!enabled) return;
+        let isActive = true;
+        let stream: MediaStream | null = null;
+        let context: AudioContext | null = null;
+        let timer: ReturnType<typeof setInterval> | undefined;
+
+        const start = async () => {
+            // Echo cancellation takes most of the spoken question out of the signal, though not
+            // reliably; noise suppression would remove the background voices this is listening for
+            stream = await navigator.mediaDevices.getUserMedia({
+                audio: { echoCancellation: true, noiseSuppression: false, autoGainControl: false }
+            });
+            if (!isActive) return stream.getTracks().forEach(t => t.stop());
+
+            context = new AudioContext();
+            const analyser = context.createAnalyser();
+            analyser.fftSize = FFT_SIZE;
+            context.createMediaStreamSource(stream).connect(analyser);
+
+            const freq = new Float32Array(analyser.frequencyBinCount);
+            const wave = new Float32Array(analyser.fftSize);
+            const binHz = context.sampleRate / analyser.fftSize;
+            const [bandLow, bandHigh] = SPEECH_BAND_HZ.map(hz => Math.round(hz / binHz));
+
+            let floorDb = 0;
+            let lipsStillMs = 0;
+            let questionVoiceMs = 0;
+            let pitches: { at: number; hz: number }[] = [];
+            const lastWarnedAt: Partial<Record<WarningType, number>> = {};
+
+            const warn = (type: WarningType, message: string, now: number) => {
+                if (now - (lastWarnedAt[type] ?? -Infinity) < WARNING_COOLDOWN_MS) return;
+                lastWarnedAt[type] = now;
+                onWarningRef.current(type, message);
+            };
+
+            timer = setInterval(() => {
+                const now = Date.now();
+                analyser.getFloatFrequencyData(freq);
+                analyser.getFloatTimeDomainData(wave);
+
+                let power = 0;
+                for (let i = bandLow; i <= bandHigh; i++) power += Math.pow(10, freq[i] / 10);
+                const levelDb = 10 * Math.log10(power / (bandHigh - bandLow + 1) || 1e-12);
+                floorDb = levelDb < floorDb ? levelDb : floorDb + (levelDb - floorDb) * FLOOR_RISE;
+                const voice = levelDb > MIN_VOICE_DB && levelDb - floorDb > VOICE_MARGIN_DB;
+
+                const lips = getLipsRef.current();
+                const currentPhase = phaseRef.current;
+                // The interviewer's voice leaks through while a question is read, so it would count as
+                // a second speaker; pitch is only sampled from the candidate's answer
+                if (currentPhase !== 'ANSWERING') {
+                    pitches = [];
+                } else if (voice) {
+                    const hz = detectPitch(wave, context!.sampleRate);
+                    if (hz) pitches.push({ at: now, hz });
+                }
+                pitches = pitches.filter(p => now - p.at <= PITCH_WINDOW_MS);
+
+                const voiceWithoutLips = voice && currentPhase === 'ANSWERING' && lips.faceInView && !lips.moving;
+                // For the same reason, a voice during the question only counts when it is the candidate's
+                const voiceDuringQuestion = voice && currentPhase === 'ASKING' && lips.faceInView && lips.moving;
+                const multipleVoices = hasTwoSpeakers(pitches.map(p => p.hz));
+
+                lipsStillMs = voiceWithoutLips ? lipsStillMs + TICK_MS : Math.max(0, lipsStillMs - TICK_MS);
+                questionVoiceMs = voiceDuringQuestion ? questionVoiceMs + TICK_MS : Math.max(0, questionVoiceMs - TICK_MS);
+                signalsRef.current = { voice, voiceWithoutLips, voiceDuringQuestion, multipleVoices };
+
+                if (lipsStillMs >= VOICE_WITHOUT_LIPS_MS) {
+                    warn('VOICE_WITHOUT_LIPS', "Voice detected while your lips aren't moving! Someone else may be speaking.", now);
+                    lipsStillMs = 0;
+                }
+                if (questionVoiceMs >= VOICE_DURING_QUESTION_MS) {
+                    warn('VOICE_DURING_QUESTION', "Talking detected while the question was being read!", now);
+                    questionVoiceMs = 0;
+                }
+                if (multipleVoices) {
+                    warn('MULTIPLE_VOICES', "More than one voice detected! Only you may speak during the interview.", now);
+                    pitches = [];
+                }
+            }, TICK_MS);
+        };
+
+        start().catch(err => {
+            console.warn("Audio proctoring unavailable:", err);
+            if (isActive) setError(err?.message || 'Microphone analysis could not start.');
+        });
+
+        return () => {
+            isActive = false;
+            clearInterval(timer);
+            stream?.getTracks().forEach(t => t.stop());
+            context?.close();
+            signalsRef.current = QUIET;
+        };
+    }, [enabled]);
+
+    return { signalsRef, error };
+}
@@ -12,6 +12,7 @@ interface UseFullscreenLockdownOptions {
     onTerminate?: () => void;
     maxViolations?: number;
     graceMs?: number; // Grace period before re-requesting fullscreen
+    initialViolations?: number; // Strikes already recorded when resuming an interrupted interview
 }
 
 interface UseFullscreenLockdownReturn {
@@ -30,6 +31,7 @@ export function useFullscreenLockdown({
     onTerminate,
     maxViolations = 3,
     graceMs = 2000,
+    initialViolations = 0,
 }: UseFullscreenLockdownOptions): UseFullscreenLockdownReturn {
     const [isFullscreen, setIsFullscreen] = useState(false);
     const [violationCount, setViolationCount] = useState(0);
@@ -45,6 +47,13 @@ export function useFullscreenLockdown({
         enabledRef.current = enabled;
     }, [enabled]);
 
+    useEffect(() => {
+        if (initialViolations > violationCountRef.current) {
+            violationCountRef.current = initialViolations;
+            setViolationCount(initialViolations);
+        }
+    }, [initialViolations]);
+
     const enterFullscreen = useCallback(async () => {
         try {
             if (!document.fullscreenElement) {
@@ -1,94 +1,60 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-
-// Polyfill definitions for browser speech API
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start: () => void;
-  stop: () => void;
-  abort: () => void;
-  onresult: (event: any) => void;
-  onerror: (event: any) => void;
-  onend: () => void;
-}
-
-declare global {
-  interface Window {
-    SpeechRecognition: any;
-    webkitSpeechRecognition: any;
-  }
-}
+import { createSttEngine, SttEngine, SttEngineType } from '../services/sttEngine';
+import { DEFAULT_LANGUAGE } from '../services/languages';
 
 export interface SpeakOptions {
   onEnd?: () => void;
   onBoundary?: () => void;
 }
 
-export const useSpeech = () => {
+// Filter for the interview language to ensure correct pronunciation of interview questions,
+// preferring the exact locale (some platforms write en_US) over other regions
+const voicesFor = (voices: SpeechSynthesisVoice[], language: string): SpeechSynthesisVoice[] => {
+  const locale = (v: SpeechSynthesisVoice) => v.lang.replace('_', '-').toLowerCase();
+  const exact = voices.filter(v => locale(v) === language.toLowerCase());
+  if (exact.length > 0) return exact;
+  const sameLanguage = voices.filter(v => locale(v).split('-')[0] === language.split('-')[0].toLowerCase());
+  return sameLanguage.length > 0 ? sameLanguage : voices;
+};
+
+/**
+ * Recognition runs on the given engine; null while none has been chosen, or when none works in
+ * this browser, in which case isSupported is false. Recognition and the voice questions are read
+ * in both follow the interview language. Whisper bills its calls to the backend session given.
+ */
+export const useSpeech = (engineType: SttEngineType | null = null, language: string = DEFAULT_LANGUAGE, sessionId: number | null = null) => {
   const [isListening, setIsListening] = useState(false);
   const [transcript, setTranscript] = useState('');
-  const [isSupported, setIsSupported] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
+  // Set when the engine fails for good; the caller should switch engines
+  const [recognitionError, setRecognitionError] = useState<string | null>(null);
   
   // Store available voices to pick from randomly
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
 
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const recognitionRef = useRef<SttEngine | null>(null);
   const currentUtteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
 
   // Initialize Speech Recognition
   useEffect(() => {
-    const SpeechRecognitionCtor = window.SpeechRecognition || window.webkitSpeechRecognition;
-    if (SpeechRecognitionCtor) {
-      setIsSupported(true);
-      const recognition = new SpeechRecognitionCtor();
-      recognition.continuous = true;
-      recognition.interimResults = true;
-      recognition.lang = 'en-US';
-
-      recognition.onresult = (event: any) => {
-        let finalTranscript = '';
-        let interimTranscript = '';
-        
-        for (let i = event.resultIndex; i < event.results.length; ++i) {
-          if (event.results[i].isFinal) {
-            finalTranscript += event.results[i][0].transcript;
-          } else {
-            interimTranscript += event.results[i][0].transcript;
-          }
-        }
-        
-        if (finalTranscript || interimTranscript) {
-           setTranscript(prev => (finalTranscript + interimTranscript).toLowerCase()); 
-        }
-      };
-
-      recognition.onerror = (event: any) => {
-        // Don't auto-stop on no-speech, just let it try to continue or handle UI
-        if (event.error === 'not-allowed' || event.error === 'aborted') {
-            setIsListening(false);
-        }
-      };
-
-      recognition.onend = () => {
-        setIsListening(false);
-      };
-
-      recognitionRef.current = recognition;
-    }
-  }, []);
+    if (!engineType) return;
+    setRecognitionError(null);
+    const engine = createSttEngine(engineType, language, sessionId);
+    recognitionRef.current = engine;
+
+    return () => {
+      engine.stop();
+      recognitionRef.current = null;
+      setIsListening(false);
+    };
+  }, [engineType, language, sessionId]);
 
   // Initialize Text-to-Speech Voices
   useEffect(() => {
     const loadVoices = () => {
       if (typeof window === 'undefined' || !window.speechSynthesis) return;
 
-      const allVoices = window.speechSynthesis.getVoices();
-      // Filter for English to ensure correct pronunciation of interview questions
-      const englishVoices = allVoices.filter(v => v.lang.startsWith('en'));
-      
-      setAvailableVoices(englishVoices.length > 0 ? englishVoices : allVoices);
+      setAvailableVoices(window.speechSynthesis.getVoices());
     };
 
     loadVoices();
@@ -106,22 +72,26 @@ export const useSpeech = () => {
       };
   }, []);
 
+  // Depends on the engine so the caller starts a replacement engine as soon as it is chosen
   const startListening = useCallback(() => {
-    if (recognitionRef.current && !isListening) {
-      try {
-        recognitionRef.current.start();
-        setIsListening(true);
-      } catch (e) {
-        // Ignore if already started
-      }
+    if (recognitionRef.current && !isListening && !recognitionError) {
+      recognitionRef.current.start({
+        onTranscript: setTranscript,
+        onEnd: () => setIsListening(false),
+        onError: (message) => {
+          setIsListening(false);
+          setRecognitionError(message);
+        }
+      });
+      setIsListening(true);
     }
-  }, [isListening]);
+  }, [isListening, engineType, recognitionError]);
 
-  const stopListening = useCallback(() => {
-    if (recognitionRef.current) {
-      recognitionRef.current.stop();
-      setIsListening(false);
-    }
+  // Resolves with the final transcript, which may still be arriving after the last onTranscript
+  const stopListening = useCallback((): Promise<string> => {
+    if (!recognitionRef.current) return Promise.resolve('');
+    setIsListening(false);
+    return recognitionRef.current.stop();
   }, []);
 
   const resetTranscript = useCallback(() => {
@@ -134,6 +104,8 @@ export const useSpeech = () => {
       window.speechSynthesis.cancel();
 
       const utterance = new SpeechSynthesisUtterance(text);
+      // Read in the interview language even when no voice for it is installed
+      utterance.lang = language;
       currentUtteranceRef.current = utterance;
 
       // Handle overloaded argument for backward compatibility (if simplified call is used)
@@ -141,16 +113,17 @@ export const useSpeech = () => {
       const onBoundary = typeof options === 'object' ? options?.onBoundary : undefined;
 
       // --- HYPER-REALISTIC VOICE SELECTION LOGIC ---
-      if (availableVoices.length > 0) {
+      const languageVoices = voicesFor(availableVoices, language);
+      if (languageVoices.length > 0) {
         // 1. Filter for "Premium" voices (Google, Natural, Premium, Enhanced)
         // These are typically the neural voices available in Chrome/Edge
         const premiumKeywords = ['Google', 'Natural', 'Premium', 'Enhanced', 'Online', 'Samantha', 'Daniel'];
-        const premiumVoices = availableVoices.filter(v => 
+        const premiumVoices = languageVoices.filter(v => 
           premiumKeywords.some(k => v.name.includes(k))
         );
 
-        // 2. Pool Selection: Use premium if available, else fall back to all English
-        const voicePool = premiumVoices.length > 0 ? premiumVoices : availableVoices;
+        // 2. Pool Selection: Use premium if available, else fall back to every voice in the language
+        const voicePool = premiumVoices.length > 0 ? premiumVoices : languageVoices;
 
         // 3. Gender Categorization (Heuristic based on name)
         const maleKeywords = ['Male', 'David', 'Guy', 'Daniel', 'Martin', 'Mark', 'James', 'Arthur'];
@@ -233,7 +206,7 @@ export const useSpeech = () => {
       const onEnd = typeof options === 'function' ? options : options?.onEnd;
       if (onEnd) onEnd();
     }
-  }, [availableVoices]);
+  }, [availableVoices, language]);
 
   const stopSpeaking = useCallback(() => {
     if ('speechSynthesis' in window) {
@@ -250,7 +223,9 @@ export const useSpeech = () => {
     resetTranscript,
     startListening,
     stopListening,
-    isSupported,
+    isSupported: engineType !== null,
+    engineType,
+    recognitionError,
     speak,
     stopSpeaking,
     isSpeaking
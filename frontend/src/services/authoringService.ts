@@ -0,0 +1,47 @@
+import { JobPost, Question } from "../types";
+import { ImportedQuestion } from "./questionBank";
+
+// "Draft with AI" for the job editor. Generation runs on the backend so provider keys never reach
+// the browser; results are suggestions the admin reviews before anything is saved.
+
+export interface AnswerDraft {
+  referenceAnswer: string;
+  keyPoints: string[];
+}
+
+export const MAX_GENERATED_QUESTIONS = 15;
+
+const postJson = async <T>(url: string, body: unknown): Promise<T> => {
+  const resp = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!resp.ok) {
+    const detail = await resp.json().catch(() => null);
+    throw new Error(detail?.error || `Drafting service responded with ${resp.status}`);
+  }
+  return await resp.json();
+};
+
+export const draftAnswer = async (question: Question, job: JobPost): Promise<AnswerDraft> => {
+  const draft = await postJson<Question>('/api/authoring/draft-answer', {
+    text: question.text,
+    topic: question.topic,
+    difficulty: question.difficulty,
+    jobTitle: job.title,
+    evaluationProvider: job.evaluationProvider
+  });
+  return { referenceAnswer: draft.referenceAnswer || '', keyPoints: draft.keyPoints || [] };
+};
+
+export const generateQuestionSet = async (job: JobPost, count: number): Promise<ImportedQuestion[]> => {
+  const questions = await postJson<Question[]>('/api/authoring/question-set', {
+    jobTitle: job.title,
+    description: job.description,
+    count,
+    difficulty: job.settings.difficulty,
+    evaluationProvider: job.evaluationProvider
+  });
+  return questions.map(({ id, ...rest }) => rest);
+};
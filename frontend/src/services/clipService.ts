@@ -0,0 +1,64 @@
+import { AnswerClip, RecordingPolicy, RoleSettings } from "../types";
+
+// Answer recordings. A clip is opened when the candidate starts answering, the recorder's chunks
+// are uploaded in order as they arrive, and the clip is completed when the answer ends. The
+// backend links each EvaluationResult to the clips recorded for its question.
+
+export const DEFAULT_RECORDING: RecordingPolicy = {
+  enabled: false,
+  retentionDays: 30
+};
+
+export const recordingPolicyOf = (settings?: RoleSettings): RecordingPolicy => ({ ...DEFAULT_RECORDING, ...settings?.recording });
+
+const CHUNK_RETRIES = 3;
+
+export const startClip = async (sessionId: number, questionId: number, mimeType: string): Promise<number> => {
+  const resp = await fetch('/api/clips', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sessionId, questionId, mimeType })
+  });
+  if (!resp.ok) throw new Error((await resp.text().catch(() => '')) || "Failed to start the recording");
+  return (await resp.json()).clipId;
+};
+
+/** Uploads one chunk, retrying network and server errors; the server ignores a chunk it already has. */
+export const uploadClipChunk = async (clipId: number, index: number, chunk: Blob): Promise<void> => {
+  for (let attempt = 1; attempt <= CHUNK_RETRIES; attempt++) {
+    if (attempt > 1) await new Promise(resolve => setTimeout(resolve, 1000 * (attempt - 1)));
+    let resp: Response;
+    try {
+      resp = await fetch(`/api/clips/${clipId}/chunks/${index}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: chunk
+      });
+    } catch {
+      continue;
+    }
+    if (resp.ok) return;
+    // Out of order or too large won't get better by retrying
+    if (resp.status < 500) throw new Error((await resp.text().catch(() => '')) || `Chunk ${index} was rejected`);
+  }
+  throw new Error(`Chunk ${index} failed to upload`);
+};
+
+export const completeClip = async (clipId: number, chunkCount: number, durationSeconds: number): Promise<void> => {
+  const resp = await fetch(`/api/clips/${clipId}/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chunkCount, durationSeconds })
+  });
+  if (!resp.ok) throw new Error((await resp.text().catch(() => '')) || "Failed to finish the recording");
+};
+
+/** Clips still held for a session; expired ones have been deleted. */
+export const getSessionClips = async (sessionId: string): Promise<AnswerClip[]> => {
+  if (!/^\d+$/.test(sessionId)) return [];
+  const resp = await fetch(`/api/clips?sessionId=${sessionId}`);
+  if (!resp.ok) throw new Error("Failed to load answer recordings");
+  return await resp.json();
+};
+
+export const getClipUrl = (clipId: number): string => `/api/clips/${clipId}/media`;
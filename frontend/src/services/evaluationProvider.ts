@@ -0,0 +1,80 @@
+import { AnswerInputMode, EvaluationProviderConfig, EvaluationProviderType, EvaluationResult, FollowUpTurn, Question, SuspicionTimeline, VisualMetrics } from "../types";
+import { composeFollowUp, joinAnswers, scoreOffline } from "./offlineScorer";
+
+export interface EvaluationRequest {
+  sessionId: number | null;
+  question: Question;
+  answer: string;
+  followUps: FollowUpTurn[];
+  inputMode: AnswerInputMode;
+  visualMetrics?: VisualMetrics;
+  suspicionTimeline?: SuspicionTimeline; // Stored with the result, not graded
+  language: string; // The backend reads it from the session's job instead
+}
+
+export interface FollowUpRequest {
+  sessionId: number | null;
+  question: Question;
+  answer: string;
+  followUps: FollowUpTurn[];
+  missingKeyPoints: string[];
+  language: string; // The backend reads it from the session's job instead
+}
+
+// Raw grading returned by a provider, before it is merged into an EvaluationResult
+export type ProviderEvaluation = Pick<EvaluationResult,
+  'contentScore' | 'grammarScore' | 'fluencyScore' | 'matchedKeyPoints' | 'missingKeyPoints' | 'verdict' | 'feedback' | 'expressionAnalysis'
+>;
+
+export interface EvaluationProvider {
+  type: 'server' | 'local';
+  evaluate: (request: EvaluationRequest) => Promise<ProviderEvaluation>;
+  generateFollowUp: (request: FollowUpRequest) => Promise<string>;
+}
+
+// ─── Server (Gemini / OpenAI-compatible, keys stay on the backend) ──
+
+export const ServerProvider: EvaluationProvider = {
+  type: 'server',
+  evaluate: async ({ sessionId, question, answer, followUps, inputMode, visualMetrics, suspicionTimeline }) => {
+    if (sessionId === null) throw new Error("No server session; the interview could not be registered with the backend.");
+
+    const resp = await fetch(`/api/interview/${sessionId}/answers`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ questionId: question.id, transcript: answer, followUps, inputMode, visualMetrics, suspicionTimeline })
+    });
+    if (!resp.ok) throw new Error(`Evaluation endpoint responded with ${resp.status}`);
+    return await resp.json();
+  },
+  generateFollowUp: async ({ sessionId, question, answer, followUps, missingKeyPoints }) => {
+    if (sessionId === null) throw new Error("No server session; the interview could not be registered with the backend.");
+
+    const resp = await fetch(`/api/interview/${sessionId}/follow-ups`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ questionId: question.id, transcript: answer, followUps, missingKeyPoints })
+    });
+    if (!resp.ok) throw new Error(`Follow-up endpoint responded with ${resp.status}`);
+    return (await resp.json()).question;
+  }
+};
+
+// ─── Local (deterministic, no network) ──────────────────────
+
+export const LocalProvider: EvaluationProvider = {
+  type: 'local',
+  evaluate: async ({ question, answer, followUps, inputMode, language }) => scoreOffline(question, joinAnswers(answer, followUps), inputMode, language),
+  generateFollowUp: async ({ followUps, language }) => composeFollowUp(followUps.length, language)
+};
+
+// ─── Resolution ─────────────────────────────────────────────
+
+/**
+ * 'local' (from the job, then VITE_EVAL_PROVIDER) grades in the browser; every other
+ * provider type is resolved by the backend from the job snapshot sent at session start.
+ */
+export const getEvaluationProvider = (config?: EvaluationProviderConfig): EvaluationProvider => {
+  const type = config?.type || (import.meta.env.VITE_EVAL_PROVIDER as EvaluationProviderType | undefined);
+  return type === 'local' ? LocalProvider : ServerProvider;
+};
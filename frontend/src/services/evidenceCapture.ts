@@ -0,0 +1,57 @@
+import { EvidenceFrame, InterviewSession } from "../types";
+
+// Still frames kept as evidence for proctoring warnings. The camera is sampled into a small
+// ring buffer, so a warning carries what led up to it as well as the frame that tripped it.
+
+const FRAME_WIDTH = 192;
+const JPEG_QUALITY = 0.6;
+const SAMPLE_INTERVAL_MS = 1000;
+const FRAMES_BEFORE = 3;
+
+/** Downscaled JPEG data URL of the video's current frame, or null before the first frame arrives. */
+export const captureFrame = (video: HTMLVideoElement, width = FRAME_WIDTH): string | null => {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round(video.videoHeight * (width / video.videoWidth));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+};
+
+export interface EvidenceRecorder {
+  /** Call every animation frame; captures at most once per sample interval. */
+  sample: (video: HTMLVideoElement) => void;
+  /** Buffered frames followed by the current one, marked as the trigger. */
+  collect: (video: HTMLVideoElement) => EvidenceFrame[];
+}
+
+export const createEvidenceRecorder = (framesBefore = FRAMES_BEFORE, intervalMs = SAMPLE_INTERVAL_MS): EvidenceRecorder => {
+  const buffer: EvidenceFrame[] = [];
+  let lastSampleAt = 0;
+
+  return {
+    sample: (video) => {
+      const now = Date.now();
+      if (now - lastSampleAt < intervalMs) return;
+      const image = captureFrame(video);
+      if (!image) return;
+      lastSampleAt = now;
+      buffer.push({ timestamp: new Date(now).toISOString(), image });
+      if (buffer.length > framesBefore) buffer.shift();
+    },
+    collect: (video) => {
+      const image = captureFrame(video);
+      const frames = [...buffer];
+      if (image) frames.push({ timestamp: new Date().toISOString(), image, trigger: true });
+      return frames;
+    }
+  };
+};
+
+/** Browser storage is too small for images; sessions kept there lose their evidence. */
+export const withoutEvidence = (session: InterviewSession): InterviewSession => ({
+  ...session,
+  warnings: session.warnings.map(({ evidence, ...w }) => w)
+});
@@ -0,0 +1,111 @@
+import { Embedding, FaceLandmarker, ImageEmbedder, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { IdentityReference, IdentitySummary } from "../types";
+
+// Checks that the person on camera is the one who registered. The face in the live frame is embedded
+// and compared with the faces in the ProfileSetup selfie and, if the role asks, the ID photo. The
+// embedder is a general image model run on tight face crops, so one low score means little: a
+// warning needs several failed checks in a row.
+
+export const IDENTITY_CHECK_INTERVAL_MS = 5000;
+export const MISMATCHES_TO_WARN = 3;
+// Cosine similarity below which a check counts as a mismatch
+const MATCH_THRESHOLD = 0.7;
+const CROP_SIZE = 160;
+const CROP_PADDING = 0.2;
+
+export interface IdentityPhoto {
+  reference: IdentityReference;
+  image: string; // Data URL
+}
+
+export interface EnrolledFace {
+  reference: IdentityReference;
+  embedding: Embedding;
+}
+
+export interface IdentityCheck {
+  confidence: number; // 0-100, best match over the enrolled faces
+  matched: boolean;
+}
+
+export interface IdentityRecorder {
+  enrolled: (references: IdentityReference[]) => void;
+  record: (check: IdentityCheck) => void;
+  /** Tally so far, or undefined if no face was ever enrolled. */
+  summarize: () => IdentitySummary | undefined;
+  /** Continues the tally of an interrupted interview. */
+  restore: (summary: IdentitySummary) => void;
+}
+
+/** Square crop around the face, scaled to the embedder's input size. */
+export const cropFace = (source: CanvasImageSource, width: number, height: number, landmarks: NormalizedLandmark[]): HTMLCanvasElement => {
+  const xs = landmarks.map(l => l.x * width);
+  const ys = landmarks.map(l => l.y * height);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+  const size = Math.max(maxX - minX, maxY - minY) * (1 + 2 * CROP_PADDING);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CROP_SIZE;
+  canvas.height = CROP_SIZE;
+  canvas.getContext('2d')?.drawImage(source, (minX + maxX - size) / 2, (minY + maxY - size) / 2, size, size, 0, 0, CROP_SIZE, CROP_SIZE);
+  return canvas;
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not read a registered photo."));
+  img.src = src;
+});
+
+/** Embeds the face in each photo; photos where no face is found are left out. */
+export const enrollFaces = async (landmarker: FaceLandmarker, embedder: ImageEmbedder, photos: IdentityPhoto[]): Promise<EnrolledFace[]> => {
+  const enrolled: EnrolledFace[] = [];
+  for (const photo of photos) {
+    const img = await loadImage(photo.image);
+    const face = landmarker.detectForVideo(img, performance.now()).faceLandmarks[0];
+    if (!face) continue;
+    const crop = cropFace(img, img.naturalWidth, img.naturalHeight, face);
+    enrolled.push({ reference: photo.reference, embedding: embedder.embed(crop).embeddings[0] });
+  }
+  return enrolled;
+};
+
+export const compareFace = (embedder: ImageEmbedder, enrolled: EnrolledFace[], crop: HTMLCanvasElement): IdentityCheck => {
+  const live = embedder.embed(crop).embeddings[0];
+  const similarity = Math.max(...enrolled.map(e => ImageEmbedder.cosineSimilarity(live, e.embedding)));
+  return { confidence: Math.round(Math.max(0, similarity) * 100), matched: similarity >= MATCH_THRESHOLD };
+};
+
+export const createIdentityRecorder = (): IdentityRecorder => {
+  let references: IdentityReference[] = [];
+  let checks = 0;
+  let mismatches = 0;
+  let confidenceSum = 0;
+  let minConfidence = 100;
+
+  return {
+    enrolled: (refs) => { references = refs; },
+    record: ({ confidence, matched }) => {
+      checks += 1;
+      if (!matched) mismatches += 1;
+      confidenceSum += confidence;
+      minConfidence = Math.min(minConfidence, confidence);
+    },
+    summarize: () => references.length === 0 ? undefined : {
+      references,
+      checks,
+      mismatches,
+      meanConfidence: checks ? Math.round(confidenceSum / checks) : 0,
+      minConfidence: checks ? minConfidence : 0,
+    },
+    restore: (summary) => {
+      references = summary.references;
+      checks = summary.checks;
+      mismatches = summary.mismatches;
+      confidenceSum = summary.meanConfidence * summary.checks;
+      minConfidence = summary.checks ? summary.minConfidence : 100;
+    },
+  };
+};
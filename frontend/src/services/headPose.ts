@@ -0,0 +1,101 @@
+import { FaceLandmarker, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { HeadPose, HeadPoseCalibration } from "../types";
+
+// Head pose from face landmarks, and the per-candidate calibration the camera monitor judges it by.
+// Without a calibration the monitor falls back to ratios that suit a centred webcam at eye level.
+
+export type CalibrationTarget = 'CENTER' | 'TOP_LEFT' | 'TOP_RIGHT' | 'BOTTOM_LEFT' | 'BOTTOM_RIGHT';
+
+export const CALIBRATION_TARGETS: { target: CalibrationTarget; label: string }[] = [
+  { target: 'CENTER', label: 'the centre of the screen' },
+  { target: 'TOP_LEFT', label: 'the top-left corner' },
+  { target: 'TOP_RIGHT', label: 'the top-right corner' },
+  { target: 'BOTTOM_LEFT', label: 'the bottom-left corner' },
+  { target: 'BOTTOM_RIGHT', label: 'the bottom-right corner' },
+];
+
+export interface GazeThresholds {
+  left: number;  // x below this is looking left
+  right: number; // x above this is looking right
+  up: number;    // y below this is head up
+  down: number;  // y above this is head down
+}
+
+export const DEFAULT_GAZE_THRESHOLDS: GazeThresholds = { left: 0.35, right: 0.65, up: 0.40, down: 0.75 };
+
+// Slack beyond the calibrated corners, as a fraction of the envelope's size
+const ENVELOPE_MARGIN = 0.25;
+// Bounds on how far from neutral a threshold may sit. The minimum keeps a candidate who barely moved
+// during calibration from being flagged for every glance; the maximum stops a wide calibration
+// from switching detection off.
+const MIN_REACH = { x: 0.15, up: 0.2, down: 0.15 };
+const MAX_REACH = { x: 0.3, up: 0.35, down: 0.3 };
+const MIN_SAMPLES_PER_TARGET = 5;
+
+/** Nose tip relative to the ears (x) and to forehead and chin (y). */
+export const measureHeadPose = (landmarks: NormalizedLandmark[]): HeadPose => {
+  const noseTip = landmarks[1];
+  const leftEar = landmarks[234];
+  const rightEar = landmarks[454];
+  const forehead = landmarks[10];
+  const chin = landmarks[152];
+  return {
+    x: (noseTip.x - leftEar.x) / Math.abs(rightEar.x - leftEar.x),
+    y: (noseTip.y - forehead.y) / Math.abs(chin.y - forehead.y),
+  };
+};
+
+const nextFrame = () => new Promise<number>(resolve => requestAnimationFrame(resolve));
+
+/** Head poses seen over the given time, from frames with exactly one face in view. */
+export const sampleHeadPose = async (landmarker: FaceLandmarker, video: HTMLVideoElement, durationMs: number): Promise<HeadPose[]> => {
+  const poses: HeadPose[] = [];
+  const end = performance.now() + durationMs;
+  while (performance.now() < end) {
+    const now = await nextFrame();
+    const result = landmarker.detectForVideo(video, now);
+    if (result.faceLandmarks.length === 1) poses.push(measureHeadPose(result.faceLandmarks[0]));
+  }
+  return poses;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const medianPose = (poses: HeadPose[]): HeadPose => ({ x: median(poses.map(p => p.x)), y: median(poses.map(p => p.y)) });
+
+/** Calibration from the poses sampled at each target, or null if any target saw too little of the face. */
+export const buildCalibration = (samples: Record<CalibrationTarget, HeadPose[]>): HeadPoseCalibration | null => {
+  if (CALIBRATION_TARGETS.some(({ target }) => samples[target].length < MIN_SAMPLES_PER_TARGET)) return null;
+
+  const neutral = medianPose(samples.CENTER);
+  const poses = CALIBRATION_TARGETS.map(({ target }) => medianPose(samples[target]));
+  return {
+    neutral,
+    envelope: {
+      minX: Math.min(...poses.map(p => p.x)),
+      maxX: Math.max(...poses.map(p => p.x)),
+      minY: Math.min(...poses.map(p => p.y)),
+      maxY: Math.max(...poses.map(p => p.y)),
+    },
+    capturedAt: new Date().toISOString(),
+  };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const getGazeThresholds = (calibration?: HeadPoseCalibration | null): GazeThresholds => {
+  if (!calibration) return DEFAULT_GAZE_THRESHOLDS;
+  const { neutral, envelope } = calibration;
+  const marginX = (envelope.maxX - envelope.minX) * ENVELOPE_MARGIN;
+  const marginY = (envelope.maxY - envelope.minY) * ENVELOPE_MARGIN;
+  return {
+    left: neutral.x - clamp(neutral.x - envelope.minX + marginX, MIN_REACH.x, MAX_REACH.x),
+    right: neutral.x + clamp(envelope.maxX - neutral.x + marginX, MIN_REACH.x, MAX_REACH.x),
+    up: neutral.y - clamp(neutral.y - envelope.minY + marginY, MIN_REACH.up, MAX_REACH.up),
+    down: neutral.y + clamp(envelope.maxY - neutral.y + marginY, MIN_REACH.down, MAX_REACH.down),
+  };
+};
@@ -0,0 +1,78 @@
+import { InviteCode } from "../types";
+import { parseCsvRecords } from "./questionBank";
+
+// Invite codes bind a candidate to a job at sign-up. A code is consumed on redemption and
+// becomes the candidate's accessId; links carry it as ?invite=CODE.
+
+export interface InviteRequest {
+  jobPostId: string;
+  count: number;       // Ignored when emails are given: one code per email
+  emails: string[];
+  maxUses: number;
+  expiresInHours: number; // 0 = never
+}
+
+export interface InviteLookup {
+  code: string;
+  jobPostId: string;
+  jobTitle: string;
+  email?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/;
+
+const readError = async (resp: Response, fallback: string) => (await resp.text().catch(() => '')) || fallback;
+
+export const getInvites = async (jobPostId: string): Promise<InviteCode[]> => {
+  const resp = await fetch(`/api/invites?jobPostId=${encodeURIComponent(jobPostId)}`);
+  if (!resp.ok) throw new Error(await readError(resp, "Failed to load invites"));
+  return await resp.json();
+};
+
+export const createInvites = async (request: InviteRequest): Promise<InviteCode[]> => {
+  const resp = await fetch('/api/invites', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  if (!resp.ok) throw new Error(await readError(resp, "Failed to create invites"));
+  return await resp.json();
+};
+
+export const revokeInvite = async (id: number): Promise<void> => {
+  const resp = await fetch(`/api/invites/${id}`, { method: 'DELETE' });
+  if (!resp.ok) throw new Error(await readError(resp, "Failed to revoke invite"));
+};
+
+/** Resolves a code to its job without using it up; null when the code cannot be redeemed. */
+export const lookupInvite = async (code: string): Promise<InviteLookup | null> => {
+  try {
+    const resp = await fetch(`/api/invites/lookup/${encodeURIComponent(code.trim())}`);
+    return resp.ok ? await resp.json() : null;
+  } catch (e) {
+    console.warn("Invite lookup failed", e);
+    return null;
+  }
+};
+
+export const getInviteLink = (code: string) => `${window.location.origin}/?invite=${encodeURIComponent(code)}`;
+
+/**
+ * Pulls email addresses out of an uploaded CSV. Uses an "email" column when the header has one,
+ * otherwise any cell that looks like an address; duplicates are dropped.
+ */
+export const parseEmailCsv = (content: string): { emails: string[]; invalid: string[] } => {
+  const records = parseCsvRecords(content.replace(/^\uFEFF/, ''));
+  const emailColumn = records[0]?.findIndex(h => h.trim().toLowerCase() === 'email') ?? -1;
+  const cells = emailColumn >= 0
+    ? records.slice(1).map(r => r[emailColumn] || '')
+    : records.flat();
+
+  const emails = new Set<string>();
+  const invalid: string[] = [];
+  cells.map(c => c.trim().toLowerCase()).filter(Boolean).forEach(c => {
+    if (EMAIL_PATTERN.test(c)) emails.add(c);
+    else if (emailColumn >= 0 || c.includes('@')) invalid.push(c);
+  });
+  return { emails: [...emails], invalid };
+};
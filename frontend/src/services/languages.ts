@@ -0,0 +1,138 @@
+import { JobPost, Question, RoleSettings } from "../types";
+
+// Languages an interview can be held in. The role's language sets the recognition locale, the
+// voice questions are read in, which question translation is asked and the language answers are
+// graded in. The backend keeps the same list for its evaluation prompts.
+
+export interface InterviewLanguage {
+  code: string;  // BCP 47, as used by speech recognition and synthesis
+  label: string; // In the language itself
+  followUps: string[]; // Probes used in turn when no LLM is available to phrase one; never name the key points
+  repeatPhrases: string[]; // Said by the candidate to hear the question again, lowercase
+  // Offline rubric: left out when comparing an answer to the key points, and hesitations counted
+  // against spoken fluency; lowercase, elided articles (l', dell') without the apostrophe
+  stopWords: string[];
+  fillerWords: string[];
+}
+
+export const DEFAULT_LANGUAGE = 'en-US';
+
+const ENGLISH_REPEAT = ['please repeat', 'repeat question'];
+
+const ENGLISH_STOP_WORDS = [
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'it', 'its', 'this', 'that', 'these', 'those', 'there',
+  'i', 'you', 'we', 'they', 'he', 'she', 'my', 'our', 'your', 'their', 'me', 'us', 'them',
+  'do', 'does', 'did', 'have', 'has', 'had', 'so', 'then', 'than', 'too', 'very', 'can', 'will', 'would',
+  'should', 'could', 'not', 'no', 'vs', 'into', 'about', 'which', 'what', 'when', 'how', 'also', 'just'
+];
+
+const ENGLISH_FILLERS = ['um', 'uh', 'erm', 'hmm', 'like', 'basically', 'actually', 'literally', 'you know', 'i mean', 'sort of', 'kind of'];
+
+const ENGLISH_FOLLOW_UPS = [
+  'Could you expand on your answer with more detail?',
+  'Can you walk me through a concrete example of that from your own experience?'
+];
+
+export const LANGUAGES: InterviewLanguage[] = [
+  { code: 'en-US', label: 'English (US)', followUps: ENGLISH_FOLLOW_UPS, repeatPhrases: ENGLISH_REPEAT,
+    stopWords: ENGLISH_STOP_WORDS, fillerWords: ENGLISH_FILLERS },
+  { code: 'en-GB', label: 'English (UK)', followUps: ENGLISH_FOLLOW_UPS, repeatPhrases: ENGLISH_REPEAT,
+    stopWords: ENGLISH_STOP_WORDS, fillerWords: ENGLISH_FILLERS },
+  {
+    code: 'es-ES', label: 'Español',
+    followUps: ['¿Podría ampliar su respuesta con más detalle?', '¿Puede darme un ejemplo concreto de su propia experiencia?'],
+    repeatPhrases: ['repita la pregunta', 'repetir la pregunta'],
+    stopWords: [
+      'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'o', 'pero', 'si', 'de', 'del',
+      'al', 'en', 'con', 'por', 'para', 'como', 'es', 'son', 'era', 'fue', 'ser', 'estar', 'está',
+      'lo', 'le', 'les', 'se', 'que', 'qué', 'su', 'sus', 'mi', 'mis', 'yo', 'tú', 'usted',
+      'nosotros', 'ellos', 'este', 'esta', 'esto', 'ese', 'esa', 'muy', 'también', 'no', 'más',
+      'cuando', 'cómo'
+    ],
+    fillerWords: ['eh', 'em', 'este', 'o sea', 'pues', 'bueno', 'vale', 'digamos']
+  },
+  {
+    code: 'fr-FR', label: 'Français',
+    followUps: ['Pourriez-vous développer votre réponse avec plus de détails ?', 'Pouvez-vous me donner un exemple concret tiré de votre propre expérience ?'],
+    repeatPhrases: ['répétez la question', 'répéter la question'],
+    stopWords: [
+      'le', 'la', 'les', 'un', 'une', 'des', 'et', 'ou', 'mais', 'si', 'de', 'du', 'au', 'aux', 'en',
+      'dans', 'sur', 'par', 'pour', 'avec', 'comme', 'est', 'sont', 'était', 'être', 'il', 'elle',
+      'ils', 'elles', 'je', 'tu', 'vous', 'nous', 'on', 'ce', 'cette', 'ces', 'cela', 'ça', 'que',
+      'qui', 'son', 'sa', 'ses', 'mon', 'ma', 'mes', 'ne', 'pas', 'plus', 'très', 'aussi', 'quand',
+      'comment', 'qu'
+    ],
+    fillerWords: ['euh', 'bah', 'ben', 'bref', 'genre', 'en fait', 'du coup', 'tu vois']
+  },
+  {
+    code: 'de-DE', label: 'Deutsch',
+    followUps: ['Könnten Sie Ihre Antwort etwas ausführlicher erläutern?', 'Können Sie mir ein konkretes Beispiel aus Ihrer eigenen Erfahrung nennen?'],
+    repeatPhrases: ['wiederholen sie die frage', 'frage wiederholen'],
+    stopWords: [
+      'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'und',
+      'oder', 'aber', 'wenn', 'von', 'zu', 'in', 'im', 'an', 'am', 'auf', 'mit', 'für', 'als', 'ist',
+      'sind', 'war', 'sein', 'ich', 'sie', 'wir', 'er', 'es', 'ihr', 'mein', 'unser', 'dass', 'nicht',
+      'kein', 'sehr', 'auch', 'wie', 'was', 'so'
+    ],
+    fillerWords: ['äh', 'ähm', 'halt', 'eben', 'sozusagen', 'quasi', 'irgendwie']
+  },
+  {
+    code: 'it-IT', label: 'Italiano',
+    followUps: ['Potrebbe approfondire la sua risposta con qualche dettaglio in più?', 'Può farmi un esempio concreto tratto dalla sua esperienza?'],
+    repeatPhrases: ['ripeta la domanda', 'ripetere la domanda'],
+    stopWords: [
+      'il', 'lo', 'la', 'i', 'gli', 'le', 'un', 'uno', 'una', 'e', 'o', 'ma', 'se', 'di', 'del',
+      'della', 'al', 'in', 'nel', 'su', 'per', 'con', 'come', 'è', 'sono', 'era', 'essere', 'io',
+      'tu', 'lei', 'noi', 'loro', 'che', 'questo', 'questa', 'quello', 'mio', 'suo', 'non', 'più',
+      'molto', 'anche', 'quando', 'dell'
+    ],
+    fillerWords: ['ehm', 'cioè', 'tipo', 'allora', 'praticamente', 'diciamo', 'insomma']
+  },
+  {
+    code: 'pt-BR', label: 'Português (Brasil)',
+    followUps: ['Você poderia aprofundar sua resposta com mais detalhes?', 'Pode me dar um exemplo concreto da sua própria experiência?'],
+    repeatPhrases: ['repita a pergunta', 'repetir a pergunta'],
+    stopWords: [
+      'o', 'a', 'os', 'as', 'um', 'uma', 'e', 'ou', 'mas', 'se', 'de', 'do', 'da', 'dos', 'das', 'em',
+      'no', 'na', 'por', 'para', 'com', 'como', 'é', 'são', 'era', 'ser', 'estar', 'eu', 'você',
+      'nós', 'eles', 'ela', 'ele', 'que', 'este', 'esta', 'isso', 'esse', 'meu', 'seu', 'não', 'mais',
+      'muito', 'também', 'quando'
+    ],
+    fillerWords: ['hum', 'né', 'tipo', 'então', 'assim', 'quer dizer']
+  },
+  {
+    code: 'nl-NL', label: 'Nederlands',
+    followUps: ['Kunt u uw antwoord wat verder uitwerken?', 'Kunt u een concreet voorbeeld geven uit uw eigen ervaring?'],
+    repeatPhrases: ['herhaal de vraag', 'vraag herhalen'],
+    stopWords: [
+      'de', 'het', 'een', 'en', 'of', 'maar', 'als', 'van', 'te', 'in', 'op', 'aan', 'met', 'voor',
+      'door', 'om', 'is', 'zijn', 'was', 'ik', 'je', 'jij', 'u', 'wij', 'we', 'zij', 'ze', 'hij',
+      'dat', 'die', 'dit', 'deze', 'mijn', 'ons', 'niet', 'geen', 'heel', 'ook', 'hoe', 'wat', 'er'
+    ],
+    fillerWords: ['eh', 'ehm', 'nou', 'eigenlijk', 'zeg maar', 'weet je']
+  }
+];
+
+export const getLanguage = (code?: string): InterviewLanguage =>
+  LANGUAGES.find(l => l.code === code) || LANGUAGES.find(l => l.code === DEFAULT_LANGUAGE)!;
+
+export const languageOf = (settings?: RoleSettings): string => getLanguage(settings?.language).code;
+
+/** The question as asked in the given language; untranslated questions are asked as written. */
+export const localizeQuestion = (question: Question, language: string): Question => {
+  const translation = question.translations?.[language];
+  if (!translation?.text.trim()) return question;
+  return {
+    ...question,
+    text: translation.text,
+    referenceAnswer: translation.referenceAnswer ?? question.referenceAnswer,
+    keyPoints: translation.keyPoints?.filter(k => k.trim()) ?? question.keyPoints
+  };
+};
+
+/** The job with every question in its interview language, as the candidate is asked it. */
+export const localizeJob = (job: JobPost): JobPost => {
+  const language = languageOf(job.settings);
+  return { ...job, questions: job.questions.map(q => localizeQuestion(q, language)) };
+};
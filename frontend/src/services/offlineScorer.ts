@@ -0,0 +1,182 @@
+import { AnswerInputMode, FollowUpTurn, Question } from "../types";
+import { ProviderEvaluation } from "./evaluationProvider";
+import { DEFAULT_LANGUAGE, getLanguage } from "./languages";
+
+// Deterministic rubric scorer used when no LLM grading is available.
+// Content is judged against the question's keyPoints/referenceAnswer; grammar and
+// fluency are proxies derived from the transcript itself. Typed answers aren't marked down for
+// filler words, which are hesitations in speech but only a matter of style in writing.
+// Stop and filler words come from the interview language; the suffix stemmer and synonyms are
+// English, so other languages match inflections by their shared prefix alone.
+
+const isEnglish = (language: string) => language.startsWith('en');
+
+// Each group collapses to its first entry once stemmed, so "quick" and "fast" count as the same concept.
+const SYNONYM_GROUPS: string[][] = [
+  ['fast', 'quick', 'speed', 'rapid', 'perform', 'efficient'],
+  ['reduc', 'minim', 'fewer', 'less', 'lower', 'decreas'],
+  ['improv', 'optim', 'boost', 'enhanc', 'better'],
+  ['updat', 'chang', 'modif', 'mutat'],
+  ['compar', 'diff', 'contrast'],
+  ['cach', 'memo', 'memoiz', 'remember'],
+  ['function', 'method', 'callback', 'handler'],
+  ['valu', 'result', 'output'],
+  ['memory', 'ram'],
+  ['thread', 'concurren', 'parallel'],
+  ['block', 'wait', 'halt'],
+  ['state', 'data', 'store'],
+  ['error', 'failur', 'except', 'crash'],
+  ['test', 'verif', 'validat', 'check'],
+  ['user', 'client', 'customer'],
+  ['team', 'colleagu', 'peer', 'collabor'],
+  ['goal', 'aim', 'objectiv', 'aspir'],
+  ['experienc', 'background', 'year'],
+  ['skill', 'abilit', 'strength', 'expertis']
+];
+
+const SUFFIXES = ['ational', 'ization', 'ation', 'ition', 'ement', 'ment', 'ness', 'ing', 'ies', 'ied', 'ed', 'ly', 'es', 'er', 'al', 's', 'e', 'y'];
+
+export const stem = (word: string): string => {
+  for (const suffix of SUFFIXES) {
+    if (word.length - suffix.length >= 3 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+};
+
+const SYNONYM_INDEX: Map<string, string> = (() => {
+  const index = new Map<string, string>();
+  SYNONYM_GROUPS.forEach(group => group.forEach(term => index.set(stem(term), group[0])));
+  return index;
+})();
+
+const canonical = (word: string, language: string): string => {
+  if (!isEnglish(language)) return word;
+  const stemmed = stem(word);
+  if (SYNONYM_INDEX.has(stemmed)) return SYNONYM_INDEX.get(stemmed)!;
+  // Prefix match lets "optimization" hit "optim" without listing every inflection
+  for (const [root, group] of SYNONYM_INDEX) {
+    if (root.length >= 5 && stemmed.startsWith(root)) return group;
+  }
+  return stemmed;
+};
+
+// Letters in any script, so accented words in translated interviews stay whole. Apostrophes join
+// English contractions but elide articles elsewhere ("l'application"), so they split those
+const words = (text: string, language: string): string[] =>
+  text.toLowerCase().split(isEnglish(language) ? /[^\p{L}\p{N}']+/u : /[^\p{L}\p{N}]+/u).filter(Boolean);
+
+export const contentTokens = (text: string, language: string = DEFAULT_LANGUAGE): Set<string> => {
+  const stopWords = new Set(getLanguage(language).stopWords);
+  return new Set(words(text, language).filter(w => !stopWords.has(w) && w.length > 1).map(w => canonical(w, language)));
+};
+
+// Stems disagree on irregular forms ("reconciliation" vs "reconciles"), so a long shared prefix also counts
+const sharesRoot = (a: string, b: string) => {
+  const minLength = Math.min(a.length, b.length);
+  return minLength >= 6 && a.slice(0, 6) === b.slice(0, 6);
+};
+
+const overlap = (expected: Set<string>, actual: Set<string>): number => {
+  if (expected.size === 0) return 0;
+  const actualTokens = [...actual];
+  let hits = 0;
+  expected.forEach(t => {
+    if (actual.has(t) || actualTokens.some(a => sharesRoot(a, t))) hits++;
+  });
+  return hits / expected.size;
+};
+
+const clamp = (value: number) => Math.max(0, Math.min(10, Math.round(value)));
+
+export interface TranscriptStats {
+  wordCount: number;
+  sentenceCount: number;
+  avgSentenceLength: number;
+  fillerRate: number;   // fillers per word, 0-1
+  repetitionRate: number; // immediately repeated words per word, 0-1
+}
+
+export const analyzeTranscript = (answer: string, language: string = DEFAULT_LANGUAGE): TranscriptStats => {
+  const tokens = words(answer, language);
+  const wordCount = tokens.length;
+  const sentences = answer.split(/[.!?]+/).map(s => s.trim()).filter(Boolean);
+  const sentenceCount = Math.max(1, sentences.length);
+
+  const padded = ` ${tokens.join(' ')} `;
+  const fillerCount = getLanguage(language).fillerWords.reduce((count, filler) => count + (padded.split(` ${filler} `).length - 1), 0);
+  const repeats = tokens.filter((t, i) => i > 0 && tokens[i - 1] === t).length;
+
+  return {
+    wordCount,
+    sentenceCount,
+    avgSentenceLength: wordCount / sentenceCount,
+    fillerRate: wordCount ? fillerCount / wordCount : 0,
+    repetitionRate: wordCount ? repeats / wordCount : 0
+  };
+};
+
+/** The original answer followed by any follow-up answers, graded as one response. */
+export const joinAnswers = (answer: string, followUps: FollowUpTurn[] = []): string =>
+  [answer, ...followUps.map(f => f.answer)].join(' ');
+
+// Template probe used when no LLM is available to phrase one. It stays generic: naming the missing
+// key points would read the answer key out to the candidate
+export const composeFollowUp = (followUpsSoFar: number, language: string = DEFAULT_LANGUAGE): string => {
+  const probes = getLanguage(language).followUps;
+  return probes[followUpsSoFar % probes.length];
+};
+
+export const scoreOffline = (
+  question: Question,
+  answer: string,
+  inputMode: AnswerInputMode = 'spoken',
+  language: string = DEFAULT_LANGUAGE
+): ProviderEvaluation => {
+  const answerTokens = contentTokens(answer, language);
+  const keyPoints = (question.keyPoints || []).filter(k => k.trim());
+
+  // A key point counts as covered when at least half of its concepts appear in the answer
+  const matchedKeyPoints = keyPoints.filter(k => {
+    const required = contentTokens(k, language);
+    return required.size > 0 && overlap(required, answerTokens) >= 0.5;
+  });
+  const missingKeyPoints = keyPoints.filter(k => !matchedKeyPoints.includes(k));
+
+  const keyPointCoverage = keyPoints.length ? matchedKeyPoints.length / keyPoints.length : 0;
+  const referenceOverlap = question.referenceAnswer
+    ? overlap(contentTokens(question.referenceAnswer, language), answerTokens)
+    : keyPointCoverage;
+  // Reference answers are long prose, so ~60% overlap already reads as a full answer
+  const referenceScore = Math.min(1, referenceOverlap / 0.6);
+
+  const stats = analyzeTranscript(answer, language);
+  const brevityPenalty = stats.wordCount < 15 ? (15 - stats.wordCount) / 15 : 0;
+
+  const contentScore = clamp(
+    (keyPoints.length ? 0.7 * keyPointCoverage + 0.3 * referenceScore : referenceScore) * 10 * (1 - 0.5 * brevityPenalty)
+  );
+
+  // Speech transcripts rarely carry punctuation, so only punish extreme run-ons or fragments
+  const sentenceLengthPenalty = stats.avgSentenceLength > 40 ? Math.min(3, (stats.avgSentenceLength - 40) / 10)
+    : stats.avgSentenceLength < 5 ? 2 : 0;
+  const grammarScore = clamp(9 - sentenceLengthPenalty - stats.repetitionRate * 30 - brevityPenalty * 3);
+  const typed = inputMode === 'typed';
+  const fluencyScore = clamp(10 - (typed ? 0 : stats.fillerRate * 40) - stats.repetitionRate * 20 - brevityPenalty * 5);
+
+  const verdict: ProviderEvaluation['verdict'] = contentScore >= 7 ? 'Pass' : contentScore >= 5 ? 'Borderline' : 'Fail';
+
+  return {
+    contentScore,
+    grammarScore,
+    fluencyScore,
+    matchedKeyPoints,
+    missingKeyPoints,
+    verdict,
+    feedback: `Offline rubric: covered ${matchedKeyPoints.length} of ${keyPoints.length} key points; `
+      + (typed ? 'typed answer, ' : `filler rate ${Math.round(stats.fillerRate * 100)}%, `)
+      + `average sentence length ${Math.round(stats.avgSentenceLength)} words.`,
+    expressionAnalysis: "Visual analysis unavailable."
+  };
+};
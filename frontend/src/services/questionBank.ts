@@ -0,0 +1,248 @@
+import { Question } from "../types";
+
+// Bulk import/export of a job's question bank. CSV matches how banks are kept in
+// spreadsheets; JSON and Markdown round-trip the same fields.
+
+export type QuestionBankFormat = 'csv' | 'json' | 'md';
+
+export type ImportedQuestion = Omit<Question, 'id'>;
+
+export interface ImportRow {
+  row: number;                  // 1-based data row (CSV line after the header, JSON index, Markdown section)
+  question: ImportedQuestion | null;
+  errors: string[];
+  duplicate?: 'existing' | 'file'; // Same text as a question already on the job, or earlier in the file
+}
+
+const COLUMNS = ['text', 'topic', 'difficulty', 'referenceAnswer', 'keyPoints', 'maxScore', 'maxFollowUps'] as const;
+const DIFFICULTIES: NonNullable<Question['difficulty']>[] = ['Easy', 'Medium', 'Hard'];
+const KEY_POINT_SEPARATOR = '|';
+const MAX_TEXT_LENGTH = 1000;
+
+export const formatFromFileName = (fileName: string): QuestionBankFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'csv') return 'csv';
+  if (ext === 'json') return 'json';
+  if (ext === 'md' || ext === 'markdown') return 'md';
+  return null;
+};
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const isDuplicateQuestion = (text: string, existing: Question[]): boolean =>
+  existing.some(q => normalizeText(q.text) === normalizeText(text));
+
+// ─── Export ─────────────────────────────────────────────────
+
+const csvCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const exportCsv = (questions: Question[]) => {
+  const rows = questions.map(q => [
+    q.text,
+    q.topic || '',
+    q.difficulty || '',
+    q.referenceAnswer || '',
+    (q.keyPoints || []).join(` ${KEY_POINT_SEPARATOR} `),
+    q.maxScore?.toString() || '',
+    q.maxFollowUps?.toString() || ''
+  ].map(csvCell).join(','));
+  return [COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+const exportJson = (questions: Question[]) =>
+  JSON.stringify(questions.map(({ id, ...rest }) => rest), null, 2);
+
+const exportMarkdown = (questions: Question[]) => questions.map(q => {
+  const lines = [`## ${q.text.replace(/\s*\n\s*/g, ' ')}`, ''];
+  if (q.topic) lines.push(`- Topic: ${q.topic}`);
+  if (q.difficulty) lines.push(`- Difficulty: ${q.difficulty}`);
+  if (q.maxScore !== undefined) lines.push(`- Max Score: ${q.maxScore}`);
+  if (q.maxFollowUps) lines.push(`- Max Follow-Ups: ${q.maxFollowUps}`);
+  if (q.referenceAnswer) lines.push('', '### Reference Answer', '', q.referenceAnswer);
+  if (q.keyPoints?.length) lines.push('', '### Key Points', '', ...q.keyPoints.map(k => `- ${k}`));
+  return lines.join('\n');
+}).join('\n\n');
+
+export const exportQuestions = (questions: Question[], format: QuestionBankFormat): string => {
+  if (format === 'csv') return exportCsv(questions);
+  if (format === 'json') return exportJson(questions);
+  return exportMarkdown(questions);
+};
+
+// ─── Parsing ────────────────────────────────────────────────
+
+type RawRecord = Record<string, unknown>;
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and newlines
+export const parseCsvRecords = (content: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    if (inQuotes) {
+      if (c === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') inQuotes = false;
+      else field += c;
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ',') {
+      record.push(field); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && content[i + 1] === '\n') i++;
+      record.push(field); field = '';
+      records.push(record); record = [];
+    } else {
+      field += c;
+    }
+  }
+  if (field || record.length) { record.push(field); records.push(record); }
+
+  return records.filter(r => r.some(cell => cell.trim()));
+};
+
+const headerKey = (header: string) => {
+  const compact = header.toLowerCase().replace(/[^a-z]/g, '');
+  return COLUMNS.find(c => c.toLowerCase() === compact) || (compact === 'question' ? 'text' : null);
+};
+
+const parseCsv = (content: string): RawRecord[] => {
+  const [header, ...rows] = parseCsvRecords(content.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const keys = header.map(headerKey);
+  if (!keys.includes('text')) throw new Error("CSV header must include a 'text' column.");
+
+  return rows.map(cells => {
+    const record: RawRecord = {};
+    keys.forEach((key, i) => { if (key) record[key] = cells[i] ?? ''; });
+    return record;
+  });
+};
+
+const parseJson = (content: string): RawRecord[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+  const list = Array.isArray(data) ? data : (data as { questions?: unknown })?.questions;
+  if (!Array.isArray(list)) throw new Error("JSON must be an array of questions or an object with a 'questions' array.");
+  return list.map(item => (item && typeof item === 'object' ? item : {}) as RawRecord);
+};
+
+const MARKDOWN_FIELDS: Record<string, keyof ImportedQuestion> = {
+  'topic': 'topic',
+  'difficulty': 'difficulty',
+  'max score': 'maxScore',
+  'max follow-ups': 'maxFollowUps'
+};
+
+const parseMarkdown = (content: string): RawRecord[] => {
+  const sections = content.replace(/\r\n?/g, '\n').split(/^## /m).slice(1);
+  if (sections.length === 0) throw new Error("Markdown must contain one '## ' heading per question.");
+
+  return sections.map(section => {
+    const [heading, ...lines] = section.split('\n');
+    const record: RawRecord = { text: heading.trim() };
+    const reference: string[] = [];
+    const keyPoints: string[] = [];
+    let block: 'fields' | 'reference' | 'keyPoints' | null = 'fields';
+
+    lines.forEach(line => {
+      const sub = line.match(/^###\s+(.*)$/);
+      if (sub) {
+        const name = sub[1].trim().toLowerCase();
+        block = name === 'reference answer' ? 'reference' : name === 'key points' ? 'keyPoints' : null;
+        return;
+      }
+      const item = line.match(/^\s*[-*]\s+(.*)$/);
+      if (block === 'fields' && item) {
+        const [label, ...value] = item[1].split(':');
+        const field = MARKDOWN_FIELDS[label.trim().toLowerCase()];
+        if (field) record[field] = value.join(':').trim();
+      } else if (block === 'reference') {
+        reference.push(line);
+      } else if (block === 'keyPoints' && item) {
+        keyPoints.push(item[1].trim());
+      }
+    });
+
+    if (reference.length) record.referenceAnswer = reference.join('\n').trim();
+    if (keyPoints.length) record.keyPoints = keyPoints;
+    return record;
+  });
+};
+
+// ─── Validation ─────────────────────────────────────────────
+
+const asString = (value: unknown) => (value === undefined || value === null ? '' : String(value)).trim();
+
+const parseInteger = (value: unknown, field: string, min: number, max: number, errors: string[]): number | undefined => {
+  const raw = asString(value);
+  if (!raw) return undefined;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < min || n > max) {
+    errors.push(`${field} must be a whole number between ${min} and ${max}.`);
+    return undefined;
+  }
+  return n;
+};
+
+const toQuestion = (record: RawRecord): { question: ImportedQuestion | null; errors: string[] } => {
+  const errors: string[] = [];
+
+  const text = asString(record.text);
+  if (!text) errors.push("Question text is required.");
+  else if (text.length > MAX_TEXT_LENGTH) errors.push(`Question text exceeds ${MAX_TEXT_LENGTH} characters.`);
+
+  const rawDifficulty = asString(record.difficulty);
+  const difficulty = DIFFICULTIES.find(d => d.toLowerCase() === rawDifficulty.toLowerCase());
+  if (rawDifficulty && !difficulty) errors.push(`Difficulty '${rawDifficulty}' must be Easy, Medium or Hard.`);
+
+  const keyPoints = Array.isArray(record.keyPoints)
+    ? record.keyPoints.map(asString).filter(Boolean)
+    : asString(record.keyPoints).split(KEY_POINT_SEPARATOR).map(k => k.trim()).filter(Boolean);
+
+  const maxScore = parseInteger(record.maxScore, 'Max score', 1, 100, errors);
+  const maxFollowUps = parseInteger(record.maxFollowUps, 'Max follow-ups', 0, 3, errors);
+
+  if (errors.length) return { question: null, errors };
+  return {
+    question: {
+      text,
+      topic: asString(record.topic) || 'General',
+      difficulty: difficulty || 'Medium',
+      referenceAnswer: asString(record.referenceAnswer),
+      keyPoints,
+      maxScore: maxScore ?? 10,
+      ...(maxFollowUps ? { maxFollowUps } : {})
+    },
+    errors
+  };
+};
+
+/**
+ * Parses a question bank file into preview rows. Each row carries its own errors and is
+ * flagged as a duplicate when its text matches an existing question or an earlier row.
+ * Throws only when the file as a whole is unreadable (bad JSON, missing CSV header).
+ */
+export const parseQuestionBank = (content: string, format: QuestionBankFormat, existing: Question[]): ImportRow[] => {
+  const records = format === 'csv' ? parseCsv(content) : format === 'json' ? parseJson(content) : parseMarkdown(content);
+  const existingTexts = new Set(existing.map(q => normalizeText(q.text)));
+  const seen = new Set<string>();
+
+  return records.map((record, i) => {
+    const { question, errors } = toQuestion(record);
+    const row: ImportRow = { row: i + 1, question, errors };
+    if (question) {
+      const key = normalizeText(question.text);
+      if (existingTexts.has(key)) row.duplicate = 'existing';
+      else if (seen.has(key)) row.duplicate = 'file';
+      seen.add(key);
+    }
+    return row;
+  });
+};
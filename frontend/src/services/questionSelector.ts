@@ -0,0 +1,115 @@
+import { AdaptiveSettings, EvaluationResult, Question, RoleSettings } from "../types";
+
+// Chooses the next question from a job's bank. Without adaptive mode the bank is
+// asked in order; with it, each verdict moves the target difficulty up or down.
+
+export const DEFAULT_ADAPTIVE: AdaptiveSettings = {
+  enabled: false,
+  escalateAfterPasses: 2,
+  maxQuestions: 0,
+  stopConfidence: 0
+};
+
+type Difficulty = NonNullable<Question['difficulty']>;
+type Band = EvaluationResult['verdict'];
+
+const LEVELS: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+// Answers needed before the confidence stop rule may end the interview
+const MIN_ANSWERS_FOR_CONFIDENCE = 3;
+
+const levelOf = (difficulty?: Question['difficulty']) => LEVELS.indexOf(difficulty || 'Medium');
+
+const startingLevel = (settings?: RoleSettings) => {
+  switch (settings?.difficulty) {
+    case 'Very Easy':
+    case 'Easy': return 0;
+    case 'Hard':
+    case 'Very Hard': return 2;
+    default: return 1;
+  }
+};
+
+const adaptiveOf = (settings?: RoleSettings): AdaptiveSettings => ({ ...DEFAULT_ADAPTIVE, ...settings?.adaptive });
+
+/** Number of questions the candidate should expect, used for the progress indicator. */
+export const getPlannedQuestionCount = (questions: Question[], settings?: RoleSettings): number => {
+  const adaptive = adaptiveOf(settings);
+  return adaptive.enabled && adaptive.maxQuestions > 0
+    ? Math.min(adaptive.maxQuestions, questions.length)
+    : questions.length;
+};
+
+// Standard normal CDF (logistic approximation, accurate to ~1%)
+const normalCdf = (z: number) => 1 / (1 + Math.exp(-1.702 * z));
+
+/**
+ * Band the mean content score currently falls in, and how sure we are the candidate's true
+ * mean is on the same side of the nearest band boundary (7 = Pass, 5 = Borderline).
+ */
+export const getBandConfidence = (history: EvaluationResult[]): { band: Band; confidence: number } => {
+  const scores = history.map(r => r.contentScore);
+  if (scores.length === 0) return { band: 'Borderline', confidence: 0 };
+
+  const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
+  const variance = scores.reduce((a, s) => a + (s - mean) ** 2, 0) / Math.max(1, scores.length - 1);
+  // Floor the spread so a few identical scores don't read as certainty
+  const standardError = Math.max(Math.sqrt(variance), 1.5) / Math.sqrt(scores.length);
+
+  const band: Band = mean >= 7 ? 'Pass' : mean >= 5 ? 'Borderline' : 'Fail';
+  const distance = band === 'Pass' ? mean - 7
+    : band === 'Fail' ? 5 - mean
+    : Math.min(mean - 5, 7 - mean);
+
+  const confidence = band === 'Borderline'
+    ? 2 * normalCdf(distance / standardError) - 1 // must stay inside both boundaries
+    : normalCdf(distance / standardError);
+
+  return { band, confidence: Math.round(Math.max(0, confidence) * 100) };
+};
+
+const targetLevel = (questions: Question[], history: EvaluationResult[], adaptive: AdaptiveSettings, settings?: RoleSettings) => {
+  const last = history[history.length - 1];
+  if (!last) return startingLevel(settings);
+
+  const lastLevel = levelOf(questions.find(q => q.id === last.questionId)?.difficulty);
+  if (last.verdict === 'Fail') return Math.max(0, lastLevel - 1);
+
+  // Only passes at the current level count, so one escalation needs a fresh streak
+  let streak = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const r = history[i];
+    if (r.verdict !== 'Pass' || levelOf(questions.find(q => q.id === r.questionId)?.difficulty) !== lastLevel) break;
+    streak++;
+  }
+  return streak >= adaptive.escalateAfterPasses ? Math.min(LEVELS.length - 1, lastLevel + 1) : lastLevel;
+};
+
+/**
+ * Returns the next question to ask given the answers so far, or null when the interview
+ * should end (bank exhausted, question cap reached, or the confidence stop rule fired).
+ */
+export const selectNextQuestion = (questions: Question[], history: EvaluationResult[], settings?: RoleSettings): Question | null => {
+  const asked = new Set(history.map(r => r.questionId));
+  const remaining = questions.filter(q => !asked.has(q.id));
+  if (remaining.length === 0) return null;
+
+  const adaptive = adaptiveOf(settings);
+  if (!adaptive.enabled) return remaining[0];
+
+  if (adaptive.maxQuestions > 0 && history.length >= adaptive.maxQuestions) return null;
+  if (adaptive.stopConfidence > 0 && history.length >= MIN_ANSWERS_FOR_CONFIDENCE
+    && getBandConfidence(history).confidence >= adaptive.stopConfidence) {
+    return null;
+  }
+
+  const target = targetLevel(questions, history, adaptive, settings);
+  // Closest difficulty wins. When the target level is used up, lean easier after a Fail and
+  // harder otherwise; remaining ties keep the bank's order
+  const leanEasier = history[history.length - 1]?.verdict === 'Fail';
+  const cost = (q: Question) => {
+    const offset = levelOf(q.difficulty) - target;
+    return Math.abs(offset) * 2 + ((offset < 0) !== leanEasier && offset !== 0 ? 1 : 0);
+  };
+  return remaining.reduce((best, q) => cost(q) < cost(best) ? q : best);
+};
@@ -0,0 +1,18 @@
+import { InterviewSession, ResumePolicy, RoleSettings } from "../types";
+
+// Whether an interrupted interview may be continued. The backend applies the same rule
+// to its sessions; this copy covers checkpoints kept in the browser when it is offline.
+
+export const DEFAULT_RESUME: ResumePolicy = {
+  enabled: true,
+  expiresAfterMinutes: 60
+};
+
+export const resumePolicyOf = (settings?: RoleSettings): ResumePolicy => ({ ...DEFAULT_RESUME, ...settings?.resume });
+
+export const canResume = (checkpoint: InterviewSession, settings?: RoleSettings, now = Date.now()): boolean => {
+  const policy = resumePolicyOf(settings);
+  if (!policy.enabled || checkpoint.status !== 'IN_PROGRESS') return false;
+  const lastActivity = new Date(checkpoint.lastCheckpointAt || checkpoint.date).getTime();
+  return policy.expiresAfterMinutes <= 0 || now - lastActivity <= policy.expiresAfterMinutes * 60_000;
+};
@@ -0,0 +1,21 @@
+import { InterviewSession, LockoutReview, ReviewDecision } from "../types";
+
+// Proctoring terminations lock the candidate out server-side; admins work through them here.
+// UPHOLD keeps the lockout, REINSTATE counts the session as completed, RETAKE voids it and
+// lets the candidate start over.
+
+export const getReviews = async (review?: LockoutReview): Promise<InterviewSession[]> => {
+  const resp = await fetch(review ? `/api/reviews?review=${review}` : '/api/reviews');
+  if (!resp.ok) throw new Error("Failed to load lockout reviews");
+  return await resp.json();
+};
+
+export const decideReview = async (sessionId: string, decision: ReviewDecision, note?: string): Promise<InterviewSession> => {
+  const resp = await fetch(`/api/reviews/${encodeURIComponent(sessionId)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ decision, note: note?.trim() || undefined })
+  });
+  if (!resp.ok) throw new Error((await resp.text().catch(() => '')) || "Failed to save the review decision");
+  return await resp.json();
+};
@@ -0,0 +1,74 @@
+import { EvaluationResult, Question, RoleSettings, WarningEvent } from "../types";
+import { getMaxWarnings, getWarningStrikes } from "./warningPolicy";
+
+// Turns per-question evaluations into the session's 0-100 overall score. Each answer is a
+// weighted blend of its sub-scores, questions count in proportion to their maxScore, and
+// proctoring warnings are deducted afterwards when the role includes them in the score.
+// The backend recomputes the stored score with the same rules (Services/SessionScoring.cs).
+
+export const DEFAULT_WEIGHTS: RoleSettings['weights'] = { concept: 50, grammar: 20, fluency: 20, camera: 10 };
+
+// Most a session can lose to warnings; reached when the warning limit is hit
+export const MAX_PROCTORING_PENALTY = 25;
+
+const DEFAULT_MAX_SCORE = 10;
+
+export interface ScoreBreakdown {
+  overallScore: number;      // 0-100, after penalties
+  answerScore: number;       // 0-100, before penalties
+  proctoringPenalty: number; // Points deducted for warnings
+  questions: { questionId: number; score: number; maxScore: number }[]; // score is out of maxScore
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value || 0));
+
+/** Weighted 0-1 score for one answer. Content, grammar and fluency are 0-10; visual confidence is 0-100. */
+export const scoreAnswer = (result: EvaluationResult, weights: RoleSettings['weights'] = DEFAULT_WEIGHTS): number => {
+  const parts = [
+    { weight: weights.concept, value: clamp(result.contentScore, 0, 10) / 10 },
+    { weight: weights.grammar, value: clamp(result.grammarScore, 0, 10) / 10 },
+    { weight: weights.fluency, value: clamp(result.fluencyScore, 0, 10) / 10 },
+    { weight: weights.camera, value: clamp(result.confidenceScore, 0, 100) / 100 },
+  ].filter(p => p.weight > 0);
+
+  const totalWeight = parts.reduce((sum, p) => sum + p.weight, 0);
+  if (totalWeight === 0) return clamp(result.contentScore, 0, 10) / 10;
+  return parts.reduce((sum, p) => sum + p.weight * p.value, 0) / totalWeight;
+};
+
+/** Points deducted for proctoring warnings; each strike costs an equal share of the cap. */
+export const getProctoringPenalty = (warnings: WarningEvent[], settings?: RoleSettings): number => {
+  if (!settings?.proctoring.includeInScore || warnings.length === 0) return 0;
+  const maxWarnings = getMaxWarnings(settings);
+  return Math.min(getWarningStrikes(warnings, settings), maxWarnings) * (MAX_PROCTORING_PENALTY / maxWarnings);
+};
+
+/**
+ * Scores the answered questions only; a terminated session is not marked down for
+ * questions it never reached beyond the warnings that ended it.
+ */
+export const computeSessionScore = (
+  results: EvaluationResult[],
+  warnings: WarningEvent[],
+  questions: Question[] = [],
+  settings?: RoleSettings
+): ScoreBreakdown => {
+  const weights = settings?.weights || DEFAULT_WEIGHTS;
+
+  const scored = results.map(r => {
+    const maxScore = questions.find(q => q.id === r.questionId)?.maxScore || DEFAULT_MAX_SCORE;
+    return { questionId: r.questionId, score: scoreAnswer(r, weights) * maxScore, maxScore };
+  });
+
+  const earned = scored.reduce((sum, q) => sum + q.score, 0);
+  const possible = scored.reduce((sum, q) => sum + q.maxScore, 0);
+  const answerScore = possible > 0 ? (earned / possible) * 100 : 0;
+  const proctoringPenalty = getProctoringPenalty(warnings, settings);
+
+  return {
+    overallScore: Math.round(clamp(answerScore - proctoringPenalty, 0, 100)),
+    answerScore: Math.round(answerScore),
+    proctoringPenalty: Math.round(proctoringPenalty),
+    questions: scored.map(q => ({ ...q, score: +q.score.toFixed(1) }))
+  };
+};
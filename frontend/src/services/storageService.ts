@@ -1,119 +1,13 @@
 
-import { InterviewSession, AdminConfig, EvaluationResult, Candidate, JobPost, Question, RoleSettings } from "../types";
+import { InterviewSession, AdminConfig, EvaluationResult, Candidate, JobPost, JobPostVersion, Question } from "../types";
+import { withoutEvidence } from "./evidenceCapture";
 
 const SESSIONS_KEY = 'reicrew_sessions_v2';
 const CONFIG_KEY = 'reicrew_config_v2';
 const JOBS_KEY = 'reicrew_jobs_v2';
 const PROFILES_KEY = 'reicrew_profiles_v2';
 const ADMINS_KEY = 'reicrew_admins_v2';
-
-const DEFAULT_SETTINGS: RoleSettings = {
-  difficulty: 'Medium',
-  preset: 'Normal',
-  weights: {
-    concept: 50,
-    grammar: 20,
-    fluency: 20,
-    camera: 10
-  },
-  proctoring: {
-    maxWarnings: 3,
-    sensitivity: 'Medium',
-    includeInScore: true
-  }
-};
-
-// Seed Data for Jobs with HR Reference Logic
-const SEED_JOBS: JobPost[] = [
-  {
-    id: 'job-frontend',
-    title: 'Senior Frontend Engineer',
-    description: 'React, TypeScript, and Performance Optimization focus.',
-    status: 'ACTIVE',
-    settings: { ...DEFAULT_SETTINGS, difficulty: 'Hard', preset: 'Strict' },
-    questions: [
-      {
-        id: 1,
-        text: "Explain the concept of the Virtual DOM in React and how it improves performance.",
-        difficulty: 'Medium',
-        topic: 'React Internals',
-        referenceAnswer: "The Virtual DOM is a lightweight in-memory representation of the real DOM. When state changes, React updates the Virtual DOM first, compares it with the previous version (diffing), and only updates the actual DOM nodes that changed (reconciliation). This minimizes slow browser layout reflows.",
-        keyPoints: [
-          "In-memory representation",
-          "Diffing algorithm",
-          "Reconciliation",
-          "Minimizes reflows/repaints"
-        ],
-        maxScore: 10
-      },
-      {
-        id: 2,
-        text: "What is the difference between useMemo and useCallback?",
-        difficulty: 'Easy',
-        topic: 'React Hooks',
-        referenceAnswer: "useMemo caches the *result* of a calculation between renders. useCallback caches the *function definition* itself. Both rely on a dependency array to invalidate the cache.",
-        keyPoints: [
-          "useMemo caches values",
-          "useCallback caches functions",
-          "Dependency array",
-          "Referential equality"
-        ],
-        maxScore: 10
-      },
-      {
-        id: 3,
-        text: "How would you handle global state in a complex React application?",
-        difficulty: 'Hard',
-        topic: 'Architecture',
-        referenceAnswer: "For complex apps, I separate server state (TanStack Query) from client state. For client state, I avoid Prop Drilling by using Context for static data (themes) and libraries like Zustand or Redux Toolkit for complex, frequent updates.",
-        keyPoints: [
-          "Server vs Client state separation",
-          "Context API limitations",
-          "Redux/Zustand for complex state",
-          "Avoid prop drilling"
-        ],
-        maxScore: 10
-      }
-    ]
-  },
-  {
-    id: 'job-backend',
-    title: 'Backend API Developer',
-    description: 'Node.js, Systems Design, and Database focus.',
-    status: 'ACTIVE',
-    settings: DEFAULT_SETTINGS,
-    questions: [
-      {
-        id: 1,
-        text: "Explain the Event Loop in Node.js.",
-        difficulty: 'Hard',
-        topic: 'Node Runtime',
-        referenceAnswer: "Node.js is single-threaded but non-blocking. The Event Loop offloads I/O operations to the system kernel. When operations complete, their callbacks are queued in phases (timers, I/O, check/immediate, close).",
-        keyPoints: [
-          "Single-threaded",
-          "Non-blocking I/O",
-          "Phases (Timers, Poll, Check)",
-          "Call stack vs Callback queue"
-        ],
-        maxScore: 10
-      },
-      {
-        id: 2,
-        text: "What are the ACID properties in databases?",
-        difficulty: 'Medium',
-        topic: 'Databases',
-        referenceAnswer: "Atomicity (all or nothing), Consistency (valid state), Isolation (transactions don't interfere), and Durability (committed data survives failure).",
-        keyPoints: [
-          "Atomicity",
-          "Consistency",
-          "Isolation",
-          "Durability"
-        ],
-        maxScore: 10
-      }
-    ]
-  }
-];
+const CHECKPOINTS_KEY = 'reicrew_checkpoints_v2';
 
 const DEFAULT_CONFIG: AdminConfig = {
   eyeTrackingSensitivity: 7,
@@ -127,19 +21,21 @@ export const StorageService = {
     return stored ? JSON.parse(stored) : [];
   },
 
+  // A numeric id is a backend session started by startInterview; it is finalised in place
   saveSession: async (session: InterviewSession) => {
     try {
+      const { id, ...rest } = session;
       const resp = await fetch('/api/analytics/sessions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(session)
+        body: JSON.stringify(/^\d+$/.test(id) ? { id: Number(id), ...rest } : rest)
       });
       if (!resp.ok) throw new Error("Failed to save session to backend");
       return await resp.json();
     } catch (e) {
       console.warn("Backend save failed, falling back to local storage", e);
       const sessions = StorageService.getSessions();
-      const updated = [session, ...sessions];
+      const updated = [withoutEvidence(session), ...sessions];
       localStorage.setItem(SESSIONS_KEY, JSON.stringify(updated));
     }
   },
@@ -156,6 +52,54 @@ export const StorageService = {
     }
   },
 
+  // --- In-Progress Checkpoints ---
+  // Backend sessions are checkpointed in place; sessions the backend never saw are kept in the browser
+
+  checkpointSession: async (session: InterviewSession) => {
+    if (/^\d+$/.test(session.id)) {
+      try {
+        const resp = await fetch(`/api/interview/${session.id}/checkpoint`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ currentQuestionId: session.currentQuestionId, results: session.results, warnings: session.warnings, identity: session.identity })
+        });
+        if (!resp.ok) throw new Error("Failed to checkpoint session");
+        return;
+      } catch (e) {
+        console.warn("Backend checkpoint failed, keeping it in local storage", e);
+      }
+    }
+    const stored = localStorage.getItem(CHECKPOINTS_KEY);
+    const checkpoints = stored ? JSON.parse(stored) : {};
+    checkpoints[session.candidate.id] = { ...withoutEvidence(session), lastCheckpointAt: new Date().toISOString() };
+    localStorage.setItem(CHECKPOINTS_KEY, JSON.stringify(checkpoints));
+  },
+
+  /** Latest unfinished session for the candidate; backend sessions are already filtered by the resume policy. */
+  // The browser's copy is only used when the backend can't be reached; once it answers, its word
+  // stands, including a refusal for a locked-out candidate
+  getCheckpoint: async (candidateId: number): Promise<InterviewSession | null> => {
+    let resp: Response;
+    try {
+      resp = await fetch(`/api/interview/sessions/resumable?candidateId=${candidateId}`);
+    } catch (e) {
+      console.warn("Resumable session lookup failed, checking local storage", e);
+      const stored = localStorage.getItem(CHECKPOINTS_KEY);
+      return stored ? JSON.parse(stored)[candidateId] || null : null;
+    }
+    if (resp.status !== 200) return null;
+    const session = await resp.json();
+    return { ...session, id: String(session.id) };
+  },
+
+  clearCheckpoint: (candidateId: number) => {
+    const stored = localStorage.getItem(CHECKPOINTS_KEY);
+    if (!stored) return;
+    const checkpoints = JSON.parse(stored);
+    delete checkpoints[candidateId];
+    localStorage.setItem(CHECKPOINTS_KEY, JSON.stringify(checkpoints));
+  },
+
   getConfig: (): AdminConfig => {
     const stored = localStorage.getItem(CONFIG_KEY);
     return stored ? JSON.parse(stored) : DEFAULT_CONFIG;
@@ -165,21 +109,71 @@ export const StorageService = {
     localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
   },
 
-  getJobs: (): JobPost[] => {
-    const stored = localStorage.getItem(JOBS_KEY);
-    if (!stored) {
-      localStorage.setItem(JOBS_KEY, JSON.stringify(SEED_JOBS));
-      return SEED_JOBS;
+  // Jobs live on the backend; the local copy is only a read cache for when the API is unreachable
+  getJobs: async (status?: JobPost['status']): Promise<JobPost[]> => {
+    try {
+      const resp = await fetch(status ? `/api/jobs?status=${status}` : '/api/jobs');
+      if (!resp.ok) throw new Error("Failed to fetch jobs");
+      const jobs: JobPost[] = await resp.json();
+      if (!status) localStorage.setItem(JOBS_KEY, JSON.stringify(jobs));
+      return jobs;
+    } catch (e) {
+      console.warn("Jobs API unavailable, using cached jobs", e);
+      const stored = localStorage.getItem(JOBS_KEY);
+      const cached: JobPost[] = stored ? JSON.parse(stored) : [];
+      return status ? cached.filter(j => j.status === status) : cached;
+    }
+  },
+
+  getJobById: async (id: string): Promise<JobPost | undefined> => {
+    try {
+      const resp = await fetch(`/api/jobs/${encodeURIComponent(id)}`);
+      if (resp.status === 404) return undefined;
+      if (!resp.ok) throw new Error("Failed to fetch job");
+      return await resp.json();
+    } catch (e) {
+      console.warn("Jobs API unavailable, using cached job", e);
+      const stored = localStorage.getItem(JOBS_KEY);
+      return stored ? (JSON.parse(stored) as JobPost[]).find(j => j.id === id) : undefined;
     }
-    return JSON.parse(stored);
   },
 
-  saveJobs: (jobs: JobPost[]) => {
-    localStorage.setItem(JOBS_KEY, JSON.stringify(jobs));
+  createJob: async (job: Omit<JobPost, 'id' | 'version'>): Promise<JobPost> => {
+    const resp = await fetch('/api/jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(job)
+    });
+    if (!resp.ok) throw new Error(await resp.text() || "Failed to create job");
+    return await resp.json();
+  },
+
+  // Sends the version the edit started from; the server rejects the save if someone else saved in between
+  updateJob: async (job: JobPost): Promise<JobPost> => {
+    const resp = await fetch(`/api/jobs/${encodeURIComponent(job.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(job)
+    });
+    if (resp.status === 409) throw new Error("This job was changed by someone else. Reload it and re-apply your edits.");
+    if (!resp.ok) throw new Error(await resp.text() || "Failed to save job");
+    return await resp.json();
+  },
+
+  getJobVersion: async (id: string, version: number): Promise<JobPostVersion | undefined> => {
+    try {
+      const resp = await fetch(`/api/jobs/${encodeURIComponent(id)}/versions/${version}`);
+      if (!resp.ok) return undefined;
+      return await resp.json();
+    } catch (e) {
+      console.warn("Failed to fetch job version", e);
+      return undefined;
+    }
   },
 
-  getJobById: (id: string): JobPost | undefined => {
-    return StorageService.getJobs().find(j => j.id === id);
+  deleteJob: async (id: string): Promise<void> => {
+    const resp = await fetch(`/api/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (!resp.ok && resp.status !== 404) throw new Error("Failed to delete job");
   },
 
   // --- User Identity Caching ---
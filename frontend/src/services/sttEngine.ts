@@ -0,0 +1,306 @@
+// Speech-to-text engines behind useSpeech. Web Speech runs in Chrome, Edge and Safari, but
+// sends audio to the browser vendor; Whisper records in any browser and transcribes through the
+// backend, which proxies to a Whisper-compatible server (see the "Speech" config section).
+
+export type SttEngineType = 'webspeech' | 'whisper';
+
+export interface SttHandlers {
+  onTranscript: (text: string) => void; // Everything heard since start(), interim words included
+  onEnd: () => void;                    // Stopped without stop() being called
+  onError: (message: string) => void;   // The engine can't go on; try another one
+}
+
+export interface SttEngine {
+  type: SttEngineType;
+  start: (handlers: SttHandlers) => void;
+  stop: () => Promise<string>;         // Resolves with the final transcript once the last words are in
+}
+
+// Polyfill definitions for browser speech API
+interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+  onresult: (event: any) => void;
+  onerror: (event: any) => void;
+  onend: () => void;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: any;
+    webkitSpeechRecognition: any;
+  }
+}
+
+// How long stop() waits for the last words before settling for what was heard so far
+const STOP_TIMEOUT_MS = 5000;
+
+// ─── Web Speech ─────────────────────────────────────────────
+
+const getSpeechRecognition = () => window.SpeechRecognition || window.webkitSpeechRecognition;
+
+const createWebSpeechEngine = (lang: string): SttEngine => {
+  const recognition: SpeechRecognition = new (getSpeechRecognition())();
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.lang = lang;
+  let listening = false;
+  let heard = '';
+
+  return {
+    type: 'webspeech',
+    start: (handlers) => {
+      heard = '';
+      recognition.onresult = (event: any) => {
+        let finalTranscript = '';
+        let interimTranscript = '';
+
+        for (let i = event.resultIndex; i < event.results.length; ++i) {
+          if (event.results[i].isFinal) {
+            finalTranscript += event.results[i][0].transcript;
+          } else {
+            interimTranscript += event.results[i][0].transcript;
+          }
+        }
+
+        if (finalTranscript || interimTranscript) {
+          heard = (finalTranscript + interimTranscript).toLowerCase();
+          handlers.onTranscript(heard);
+        }
+      };
+
+      recognition.onerror = (event: any) => {
+        // Don't auto-stop on no-speech, just let it try to continue or handle UI
+        if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+          handlers.onError('Microphone access for speech recognition was denied.');
+        } else if (event.error === 'network') {
+          handlers.onError("The browser's speech service is unreachable.");
+        }
+      };
+
+      recognition.onend = () => {
+        listening = false;
+        handlers.onEnd();
+      };
+
+      try {
+        recognition.start();
+        listening = true;
+      } catch (e) {
+        // Ignore if already started
+      }
+    },
+    // The browser delivers the last results before onend
+    stop: () => new Promise(resolve => {
+      if (!listening) return resolve(heard);
+      const timer = setTimeout(() => resolve(heard), STOP_TIMEOUT_MS);
+      recognition.onend = () => {
+        listening = false;
+        clearTimeout(timer);
+        resolve(heard);
+      };
+      recognition.stop();
+    })
+  };
+};
+
+// ─── Whisper (through the backend) ──────────────────────────
+
+// A segment is recorded as a file of its own and transcribed whole; it is cut at a pause once
+// it is long enough, so words aren't split, and always by the maximum length. Recorded chunks
+// can't be decoded on their own, so an interim pass re-sends the segment so far, and only once
+// it has doubled in size; that keeps the upload under twice the audio
+const TIMESLICE_MS = 1000;
+const INTERIM_MS = 2000;
+const SEGMENT_MIN_MS = 8000;
+const SEGMENT_MAX_MS = 20000;
+const PAUSE_LEVEL_DB = -50;
+const FAILURES_TO_GIVE_UP = 3;
+const AUDIO_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+// Transcription is only offered to an interview in progress on the backend
+export const transcribeAudio = async (audio: Blob, lang: string, sessionId: number | null): Promise<string> => {
+  if (sessionId === null) throw new Error("Transcription needs a backend interview session");
+  const language = lang.split('-')[0];
+  const resp = await fetch(`/api/speech/transcriptions?sessionId=${sessionId}&language=${encodeURIComponent(language)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': audio.type || 'application/octet-stream' },
+    body: audio
+  });
+  if (!resp.ok) throw new Error(`Transcription endpoint responded with ${resp.status}`);
+  return ((await resp.json()).text || '').trim();
+};
+
+let whisperStatus: Promise<boolean> | null = null;
+
+/** Whether the backend has a Whisper server configured; asked once per page load unless it fails. */
+const isWhisperAvailable = (): Promise<boolean> => {
+  whisperStatus ??= fetch('/api/speech')
+    .then(resp => resp.ok ? resp.json() : { whisper: false })
+    .then(status => !!status.whisper)
+    .catch(() => {
+      whisperStatus = null;
+      return false;
+    });
+  return whisperStatus;
+};
+
+const createWhisperEngine = (lang: string, sessionId: number | null): SttEngine => {
+  let stopSession: (() => Promise<string>) | null = null;
+  // Bumped by every start and stop, so a session whose microphone opens after stop() ends at once
+  let sessionToken = 0;
+
+  const startSession = async (handlers: SttHandlers, token: number) => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    if (token !== sessionToken) return stream.getTracks().forEach(t => t.stop());
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    context.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    const mimeType = AUDIO_TYPES.find(t => MediaRecorder.isTypeSupported(t));
+
+    const texts: string[] = [];
+    const finished: boolean[] = [];
+    let stopped = false;
+    let failures = 0;
+    let pending = 0;
+    let onSettled: ((text: string) => void) | null = null;
+
+    const heard = () => texts.filter(Boolean).join(' ');
+    // Release the microphone and hand the final transcript to stop()
+    const settle = () => {
+      if (context.state !== 'closed') context.close();
+      onSettled?.(heard());
+      onSettled = null;
+    };
+    const emit = () => handlers.onTranscript(heard());
+    const transcribe = (index: number, audio: Blob, final: boolean) => {
+      pending++;
+      transcribeAudio(audio, lang, sessionId)
+        .then(text => {
+          failures = 0;
+          // A slow interim result mustn't overwrite the segment's final one
+          if (finished[index] && !final) return;
+          finished[index] = final;
+          texts[index] = text;
+          emit();
+        })
+        .catch(err => {
+          console.warn("Transcription failed:", err);
+          if (++failures === FAILURES_TO_GIVE_UP && !stopped) handlers.onError('The speech service is unreachable.');
+        })
+        .finally(() => {
+          // Settle once the last segment is in
+          if (--pending === 0 && stopped) settle();
+        });
+    };
+
+    const isPaused = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+      return 20 * Math.log10(rms || 1e-9) < PAUSE_LEVEL_DB;
+    };
+
+    const recordSegment = () => {
+      const index = texts.length;
+      texts.push('');
+      const chunks: Blob[] = [];
+      const startedAt = Date.now();
+      let lastInterimAt = startedAt;
+      let size = 0;
+      let interimSize = 0;
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size) chunks.push(e.data);
+        size += e.data.size;
+        if (recorder.state === 'inactive') return;
+        const now = Date.now();
+        const elapsed = now - startedAt;
+        if (elapsed >= SEGMENT_MAX_MS || (elapsed >= SEGMENT_MIN_MS && isPaused())) {
+          recorder.stop();
+        } else if (now - lastInterimAt >= INTERIM_MS && pending === 0 && size >= 2 * interimSize) {
+          // The chunks so far form a playable prefix of the segment
+          lastInterimAt = now;
+          interimSize = size;
+          transcribe(index, new Blob(chunks, { type: recorder.mimeType }), false);
+        }
+      };
+      recorder.onstop = () => {
+        if (chunks.length) transcribe(index, new Blob(chunks, { type: recorder.mimeType }), true);
+        if (stopped) {
+          stream.getTracks().forEach(t => t.stop());
+          if (pending === 0) settle();
+        } else {
+          recordSegment();
+        }
+      };
+      stream.getAudioTracks()[0].onended = () => {
+        if (stopped) return;
+        stopped = true;
+        handlers.onEnd();
+      };
+
+      recorder.start(TIMESLICE_MS);
+      stopSession = () => new Promise(resolve => {
+        stopped = true;
+        onSettled = resolve;
+        if (recorder.state !== 'inactive') recorder.stop();
+        else if (pending === 0) settle();
+        // A hung transcription mustn't hold the answer up
+        setTimeout(settle, STOP_TIMEOUT_MS);
+      });
+    };
+
+    recordSegment();
+  };
+
+  return {
+    type: 'whisper',
+    start: (handlers) => {
+      startSession(handlers, ++sessionToken).catch(err => {
+        console.warn("Whisper recording unavailable:", err);
+        handlers.onError('Microphone access for speech recognition was denied.');
+      });
+    },
+    stop: () => {
+      sessionToken++;
+      const finished = stopSession?.() ?? Promise.resolve('');
+      stopSession = null;
+      return finished;
+    }
+  };
+};
+
+// ─── Resolution ─────────────────────────────────────────────
+
+const ENGINES: Record<SttEngineType, { isSupported: () => Promise<boolean>; create: (lang: string, sessionId: number | null) => SttEngine }> = {
+  webspeech: {
+    isSupported: async () => !!getSpeechRecognition(),
+    create: createWebSpeechEngine
+  },
+  whisper: {
+    isSupported: async () => typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices && await isWhisperAvailable(),
+    create: createWhisperEngine
+  }
+};
+
+export const createSttEngine = (type: SttEngineType, lang: string, sessionId: number | null = null): SttEngine => ENGINES[type].create(lang, sessionId);
+
+/**
+ * First engine this browser can use: VITE_STT_ENGINE when set, then Web Speech, then Whisper.
+ * Engines that already failed this interview are skipped; null when none is left.
+ */
+export const resolveSttEngine = async (exclude: SttEngineType[] = []): Promise<SttEngineType | null> => {
+  const preferred = import.meta.env.VITE_STT_ENGINE as SttEngineType | undefined;
+  const order = [...new Set([preferred, 'webspeech', 'whisper'] as SttEngineType[])]
+    .filter(type => type && ENGINES[type] && !exclude.includes(type));
+  for (const type of order) {
+    if (await ENGINES[type].isSupported()) return type;
+  }
+  return null;
+};
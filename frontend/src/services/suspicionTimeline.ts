@@ -0,0 +1,114 @@
+import { SuspicionSample, SuspicionTimeline, VisualMetrics } from "../types";
+
+// Aggregates per-frame camera metrics over the time a candidate spends answering one question.
+// Time is measured between frames, so pauses between a question and its follow-ups don't count.
+
+const BUCKET_MS = 1000;
+const MAX_SAMPLES = 300;
+// Longer frame gaps are pauses (tab hidden, not answering) and count as one ordinary frame
+const MAX_FRAME_MS = 250;
+const TYPICAL_FRAME_MS = 33;
+
+interface Bucket {
+  suspicionSum: number;
+  frames: number;
+  awayMs: number;
+  missingMs: number;
+  ms: number;
+}
+
+export interface SuspicionRecorder {
+  record: (metrics: VisualMetrics, now?: number) => void;
+  /** Timeline of everything recorded since the last reset, or undefined if nothing was. */
+  summarize: () => SuspicionTimeline | undefined;
+  reset: () => void;
+}
+
+const pct = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+// Keeps long answers compact by merging neighbouring samples
+const downsample = (samples: SuspicionSample[], factor: number): SuspicionSample[] => {
+  const merged: SuspicionSample[] = [];
+  for (let i = 0; i < samples.length; i += factor) {
+    const group = samples.slice(i, i + factor);
+    merged.push({
+      t: group[0].t,
+      suspicion: Math.round(group.reduce((sum, s) => sum + s.suspicion, 0) / group.length),
+      away: group.filter(s => s.away).length * 2 > group.length || undefined,
+      faceMissing: group.filter(s => s.faceMissing).length * 2 > group.length || undefined,
+    });
+  }
+  return merged;
+};
+
+export const createSuspicionRecorder = (): SuspicionRecorder => {
+  let buckets: Bucket[] = [];
+  let lastFrameAt: number | null = null;
+  let activeMs = 0;
+  let awayMs = 0;
+  let talkingMs = 0;
+  let phoneMs = 0;
+  let missingMs = 0;
+  let peak = 0;
+
+  return {
+    record: (metrics, now = performance.now()) => {
+      const gap = lastFrameAt === null ? TYPICAL_FRAME_MS : now - lastFrameAt;
+      const dt = gap > MAX_FRAME_MS ? TYPICAL_FRAME_MS : Math.max(0, gap);
+      lastFrameAt = now;
+
+      const index = Math.floor(activeMs / BUCKET_MS);
+      const bucket = buckets[index] || (buckets[index] = { suspicionSum: 0, frames: 0, awayMs: 0, missingMs: 0, ms: 0 });
+      activeMs += dt;
+      bucket.ms += dt;
+
+      if (!metrics.isPresent) {
+        missingMs += dt;
+        bucket.missingMs += dt;
+        return;
+      }
+      bucket.suspicionSum += metrics.suspicionLevel;
+      bucket.frames += 1;
+      peak = Math.max(peak, metrics.suspicionLevel);
+      if (!metrics.isLookingAtCamera) {
+        awayMs += dt;
+        bucket.awayMs += dt;
+      }
+      if (metrics.isTalking) talkingMs += dt;
+      if (metrics.suspectedPhoneUse) phoneMs += dt;
+    },
+
+    summarize: () => {
+      if (activeMs === 0) return undefined;
+      let samples: SuspicionSample[] = [];
+      buckets.forEach((b, i) => {
+        if (!b) return;
+        samples.push({
+          t: i * (BUCKET_MS / 1000),
+          suspicion: b.frames ? Math.round(b.suspicionSum / b.frames) : 0,
+          away: b.awayMs * 2 > b.ms || undefined,
+          faceMissing: b.missingMs * 2 > b.ms || undefined,
+        });
+      });
+      const factor = Math.ceil(samples.length / MAX_SAMPLES);
+      if (factor > 1) samples = downsample(samples, factor);
+
+      return {
+        bucketSeconds: (BUCKET_MS / 1000) * factor,
+        samples,
+        durationSeconds: Math.round(activeMs / 1000),
+        lookingAwayPct: pct(awayMs, activeMs),
+        talkingPct: pct(talkingMs, activeMs),
+        phonePct: pct(phoneMs, activeMs),
+        peakSuspicion: Math.round(peak),
+        faceMissingSeconds: Math.round(missingMs / 100) / 10,
+      };
+    },
+
+    reset: () => {
+      buckets = [];
+      lastFrameAt = null;
+      activeMs = awayMs = talkingMs = phoneMs = missingMs = peak = 0;
+    }
+  };
+};
@@ -0,0 +1,70 @@
+import { FaceLandmarker, FilesetResolver, ImageEmbedder, ObjectDetector } from '@mediapipe/tasks-vision';
+
+// MediaPipe models used for proctoring: the face landmarker shared by the camera check and the
+// interview monitor, the optional object detector that looks for phones, books and screens, and
+// the image embedder behind identity checks.
+// The wasm runtime and models are served with the app (see vite.config.ts); VITE_MEDIAPIPE_BASE_URL
+// points them at another host, such as an internal mirror.
+
+export const MEDIAPIPE_BASE_URL = (import.meta.env.VITE_MEDIAPIPE_BASE_URL || `${import.meta.env.BASE_URL}mediapipe`).replace(/\/$/, '');
+
+const WASM_URL = `${MEDIAPIPE_BASE_URL}/wasm`;
+const FACE_MODEL_URL = `${MEDIAPIPE_BASE_URL}/models/face_landmarker.task`;
+const OBJECT_MODEL_URL = `${MEDIAPIPE_BASE_URL}/models/efficientdet_lite0.tflite`;
+const EMBEDDER_MODEL_URL = `${MEDIAPIPE_BASE_URL}/models/mobilenet_v3_small.tflite`;
+
+// COCO labels the detector is limited to
+export const DETECTED_OBJECT_LABELS = ['cell phone', 'book', 'laptop', 'tv'];
+
+/** Thrown when the wasm runtime or a model can't be fetched or started. */
+export class VisionModelError extends Error {}
+
+const load = async <T>(what: string, url: string, create: () => Promise<T>): Promise<T> => {
+  try {
+    return await create();
+  } catch (cause) {
+    throw new VisionModelError(`The ${what} could not be loaded from ${url}.`, { cause });
+  }
+};
+
+export const createFaceLandmarker = (): Promise<FaceLandmarker> =>
+  load('face tracking model', FACE_MODEL_URL, async () => {
+    const filesetResolver = await FilesetResolver.forVisionTasks(WASM_URL);
+    return FaceLandmarker.createFromOptions(filesetResolver, {
+      baseOptions: {
+        modelAssetPath: FACE_MODEL_URL,
+        delegate: "GPU"
+      },
+      outputFaceBlendshapes: true,
+      runningMode: "VIDEO",
+      numFaces: 2
+    });
+  });
+
+export const createObjectDetector = (): Promise<ObjectDetector> =>
+  load('object detection model', OBJECT_MODEL_URL, async () => {
+    const filesetResolver = await FilesetResolver.forVisionTasks(WASM_URL);
+    return ObjectDetector.createFromOptions(filesetResolver, {
+      baseOptions: {
+        modelAssetPath: OBJECT_MODEL_URL,
+        delegate: "GPU"
+      },
+      runningMode: "VIDEO",
+      scoreThreshold: 0.5,
+      maxResults: 5,
+      categoryAllowlist: DETECTED_OBJECT_LABELS
+    });
+  });
+
+export const createImageEmbedder = (): Promise<ImageEmbedder> =>
+  load('identity check model', EMBEDDER_MODEL_URL, async () => {
+    const filesetResolver = await FilesetResolver.forVisionTasks(WASM_URL);
+    return ImageEmbedder.createFromOptions(filesetResolver, {
+      baseOptions: {
+        modelAssetPath: EMBEDDER_MODEL_URL,
+        delegate: "GPU"
+      },
+      runningMode: "IMAGE",
+      l2Normalize: true
+    });
+  });
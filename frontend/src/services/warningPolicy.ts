@@ -0,0 +1,68 @@
+import { RoleSettings, WarningEvent, WarningSeverity, WarningType } from "../types";
+
+// How much each kind of proctoring warning counts. A warning adds its weight in strikes towards
+// the role's maxWarnings limit and the score penalty; roles can override the weights per type.
+// The default weights are repeated in the backend's Services/SessionScoring.cs.
+
+export const WARNING_CATALOG: Record<WarningType, { label: string; severity: WarningSeverity; weight: number }> = {
+  GAZE: { label: 'Looking Away', severity: 'LOW', weight: 1 },
+  LOOKING_DOWN: { label: 'Looking Down', severity: 'LOW', weight: 1 },
+  TALKING: { label: 'Talking', severity: 'MEDIUM', weight: 1 },
+  FACE_MISSING: { label: 'Face Missing', severity: 'MEDIUM', weight: 1 },
+  TAB_SWITCH: { label: 'Tab Switch', severity: 'MEDIUM', weight: 1 },
+  FULLSCREEN_EXIT: { label: 'Fullscreen Exit', severity: 'MEDIUM', weight: 1 },
+  BOOK_DETECTED: { label: 'Book In View', severity: 'MEDIUM', weight: 1 },
+  VOICE_WITHOUT_LIPS: { label: 'Off-Camera Voice', severity: 'MEDIUM', weight: 1 },
+  VOICE_DURING_QUESTION: { label: 'Voice During Question', severity: 'MEDIUM', weight: 1 },
+  // Logged for the reviewer when the role's object detector fails to load; the candidate isn't at fault
+  OBJECT_DETECTION_UNAVAILABLE: { label: 'Object Detection Off', severity: 'MEDIUM', weight: 0 },
+  IDENTITY_CHECK_UNAVAILABLE: { label: 'Identity Check Off', severity: 'MEDIUM', weight: 0 },
+  AUDIO_MONITORING_UNAVAILABLE: { label: 'Audio Monitoring Off', severity: 'MEDIUM', weight: 0 },
+  PHONE_SUSPECTED: { label: 'Phone Suspected', severity: 'HIGH', weight: 2 },
+  MULTIPLE_FACES: { label: 'Multiple Faces', severity: 'HIGH', weight: 2 },
+  SCREEN_DETECTED: { label: 'Second Screen', severity: 'HIGH', weight: 2 },
+  PHONE_DETECTED: { label: 'Phone In View', severity: 'HIGH', weight: 2 },
+  IDENTITY_MISMATCH: { label: 'Identity Mismatch', severity: 'HIGH', weight: 2 },
+  MULTIPLE_VOICES: { label: 'Multiple Voices', severity: 'HIGH', weight: 2 },
+};
+
+export const WARNING_TYPES = Object.keys(WARNING_CATALOG) as WarningType[];
+
+export const SEVERITY_STYLES: Record<WarningSeverity, string> = {
+  LOW: 'bg-slate-100 text-slate-600',
+  MEDIUM: 'bg-amber-50 text-amber-700',
+  HIGH: 'bg-red-50 text-red-700',
+};
+
+// Warnings saved before the taxonomy existed have no severity of their own
+export const getWarningSeverity = (warning: WarningEvent): WarningSeverity =>
+  warning.severity || WARNING_CATALOG[warning.type]?.severity || 'MEDIUM';
+
+export const getWarningLabel = (type: WarningType): string => WARNING_CATALOG[type]?.label || type.replace(/_/g, ' ');
+
+/** Strikes one warning of this type costs under the role's settings. */
+export const getWarningWeight = (type: WarningType, settings?: RoleSettings): number => {
+  const weight = settings?.proctoring.typeWeights?.[type];
+  return weight !== undefined && weight >= 0 ? weight : WARNING_CATALOG[type]?.weight ?? 1;
+};
+
+/** Total strikes for a warning log; compared against proctoring.maxWarnings. */
+export const getWarningStrikes = (warnings: WarningEvent[], settings?: RoleSettings): number =>
+  warnings.reduce((sum, w) => sum + getWarningWeight(w.type, settings), 0);
+
+/** The role's strike limit; the interview is terminated once a warning log reaches it. */
+export const getMaxWarnings = (settings?: RoleSettings): number =>
+  Math.max(1, settings?.proctoring.maxWarnings || 3);
+
+/** Whether a warning log has used up the role's strikes. */
+export const hasReachedWarningLimit = (warnings: WarningEvent[], settings?: RoleSettings): boolean =>
+  getWarningStrikes(warnings, settings) >= getMaxWarnings(settings);
+
+/** Builds a WarningEvent stamped with its type's severity. */
+export const createWarning = (type: WarningType, message: string, extra?: Partial<WarningEvent>): WarningEvent => ({
+  timestamp: new Date().toISOString(),
+  type,
+  severity: WARNING_CATALOG[type].severity,
+  message,
+  ...extra
+});
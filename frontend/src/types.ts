@@ -14,6 +14,7 @@ export interface Candidate {
   profilePhoto?: string;
   idCardImage?: string;
   isVerified?: boolean;
+  lockedOutAt?: string; // Set by a proctoring termination until an admin review lifts it
 }
 
 export interface Question {
@@ -24,6 +25,15 @@ export interface Question {
   referenceAnswer?: string; // HR's ideal answer
   keyPoints?: string[]; // Specific concepts to hit
   maxScore?: number; // Default 10
+  maxFollowUps?: number; // Probing questions allowed when key points are missed, default 0
+  translations?: Record<string, QuestionTranslation>; // Keyed by interview language, e.g. 'es-ES'
+}
+
+// The question as asked in another language; absent fields fall back to the original
+export interface QuestionTranslation {
+  text: string;
+  referenceAnswer?: string;
+  keyPoints?: string[];
 }
 
 export interface RoleSettings {
@@ -39,7 +49,40 @@ export interface RoleSettings {
     maxWarnings: number; // 1-5
     sensitivity: 'Low' | 'Medium' | 'High';
     includeInScore: boolean;
+    typeWeights?: Partial<Record<WarningType, number>>; // Strikes per warning, absent types use WARNING_CATALOG
+    objectDetection?: boolean; // Look for phones, books and second screens in frame, absent = off
+    identityCheck?: 'SELFIE' | 'SELFIE_AND_ID'; // Registered photos the live face is matched against, absent = off
+    audioMonitoring?: boolean; // Listen for other voices and speech with closed lips, absent = off
   };
+  adaptive?: AdaptiveSettings; // Absent = ask the whole bank in order
+  resume?: ResumePolicy;       // Absent = DEFAULT_RESUME
+  recording?: RecordingPolicy; // Absent = not recorded
+  typedAnswers?: boolean;      // Every candidate types instead of speaking; absent = spoken, candidates may still opt in
+  language?: string;           // Interview language, a code from LANGUAGES; absent = DEFAULT_LANGUAGE
+}
+
+export interface RecordingPolicy {
+  enabled: boolean;            // Record camera and microphone while the candidate answers
+  retentionDays: number;       // Clips are deleted this long after recording, 0 = keep
+}
+
+export interface ResumePolicy {
+  enabled: boolean;            // Whether an interrupted interview may be continued at all
+  expiresAfterMinutes: number; // Since the last checkpoint, 0 = no limit
+}
+
+export interface AdaptiveSettings {
+  enabled: boolean;
+  escalateAfterPasses: number; // Consecutive passes at one difficulty before stepping up
+  maxQuestions: number;        // Stop after N questions, 0 = whole bank
+  stopConfidence: number;      // Stop once band confidence reaches this %, 0 = off
+}
+
+export type EvaluationProviderType = 'gemini' | 'openai' | 'local';
+
+export interface EvaluationProviderConfig {
+  type: EvaluationProviderType;
+  model?: string;   // Overrides the provider's default model
 }
 
 export interface JobPost {
@@ -49,8 +92,26 @@ export interface JobPost {
   status: 'ACTIVE' | 'INACTIVE';
   questions: Question[];
   settings: RoleSettings;
+  evaluationProvider?: EvaluationProviderConfig; // Falls back to the backend's Evaluation:Provider
+  version?: number; // Server-assigned; bumped on every save
+  updatedAt?: string;
+}
+
+// Immutable copy of a job as of one save; sessions point at the version they ran against
+export interface JobPostVersion {
+  jobPostId: string;
+  version: number;
+  title: string;
+  description?: string;
+  questions: Question[];
+  settings: RoleSettings;
+  evaluationProvider?: EvaluationProviderConfig;
+  createdAt: string;
 }
 
+// How an answer was given; typed answers are graded as writing, so fluency isn't judged on speech
+export type AnswerInputMode = 'spoken' | 'typed';
+
 export interface EvaluationResult {
   questionId: number;
   questionText: string;
@@ -72,12 +133,78 @@ export interface EvaluationResult {
   confidenceScore: number; // 0-100 (Visual)
   expressionAnalysis: string; // Summary of visual analysis
   timestamp: string;
+  source?: 'llm' | 'offline'; // 'offline' = graded by the local rubric scorer, not an LLM
+  inputMode?: AnswerInputMode; // Absent = spoken
+  followUps?: FollowUpTurn[]; // Probes asked after userAnswer; graded together with it
+  suspicionTimeline?: SuspicionTimeline; // Camera metrics while the candidate was answering
+  clipIds?: number[]; // Server-linked AnswerClips of the answer and its follow-ups, oldest first
+}
+
+export interface SuspicionTimeline {
+  bucketSeconds: number;        // Answering time each sample covers
+  samples: SuspicionSample[];
+  durationSeconds: number;      // Time spent answering, follow-ups included
+  lookingAwayPct: number;       // 0-100
+  talkingPct: number;
+  phonePct: number;
+  peakSuspicion: number;        // 0-100
+  faceMissingSeconds: number;
+}
+
+export interface SuspicionSample {
+  t: number;          // Seconds into the answer
+  suspicion: number;  // Mean suspicionLevel over the bucket
+  away?: boolean;     // Looking away for most of the bucket
+  faceMissing?: boolean;
+}
+
+// Recording of one answer or follow-up answer; the media is fetched from /api/clips/{id}/media
+export interface AnswerClip {
+  id: number;
+  interviewSessionId: number;
+  questionId: number;
+  mimeType: string;
+  chunkCount: number;
+  sizeBytes: number;
+  durationSeconds?: number; // Absent while uploading, or when the upload never finished
+  startedAt: string;
+  completedAt?: string;
+  expiresAt?: string;
+}
+
+export interface FollowUpTurn {
+  question: string;
+  answer: string;
 }
 
+export type WarningType =
+  | 'GAZE' | 'FACE_MISSING' | 'MULTIPLE_FACES' | 'PHONE_SUSPECTED' | 'TALKING' | 'LOOKING_DOWN' // Camera
+  | 'PHONE_DETECTED' | 'BOOK_DETECTED' | 'SCREEN_DETECTED' | 'OBJECT_DETECTION_UNAVAILABLE'  // Object detector
+  | 'IDENTITY_MISMATCH' | 'IDENTITY_CHECK_UNAVAILABLE'                                        // Face match
+  | 'VOICE_WITHOUT_LIPS' | 'VOICE_DURING_QUESTION' | 'MULTIPLE_VOICES' | 'AUDIO_MONITORING_UNAVAILABLE' // Microphone
+  | 'TAB_SWITCH' | 'FULLSCREEN_EXIT';                                                         // Browser lockdown
+
+export type WarningSeverity = 'LOW' | 'MEDIUM' | 'HIGH';
+
 export interface WarningEvent {
   timestamp: string;
-  type: 'GAZE' | 'FACE_MISSING' | 'MULTIPLE_FACES' | 'TAB_SWITCH' | 'FULLSCREEN_EXIT';
+  type: WarningType;
+  severity?: WarningSeverity; // Absent on warnings recorded before severities existed
   message: string;
+  evidence?: EvidenceFrame[]; // Camera frames leading up to a camera warning, oldest first
+}
+
+// What CameraMonitor reports when one of its detectors trips
+export interface CameraWarning {
+  type: WarningType;
+  message: string;
+  evidence: EvidenceFrame[];
+}
+
+export interface EvidenceFrame {
+  timestamp: string;
+  image: string;     // Downscaled JPEG data URL
+  trigger?: boolean; // The frame captured when the warning fired
 }
 
 export interface InterviewSession {
@@ -89,6 +216,50 @@ export interface InterviewSession {
   results: EvaluationResult[];
   warnings: WarningEvent[];
   durationSeconds: number;
+  jobPostId?: string;
+  jobVersion?: number;
+  currentQuestionId?: number; // Checkpointed question while IN_PROGRESS
+  lastCheckpointAt?: string;
+  review?: LockoutReview; // Present when proctoring terminated the session
+  reviewedAt?: string;
+  reviewNote?: string;
+  identity?: IdentitySummary; // Present when the role checks the candidate's face against their photos
+}
+
+export type IdentityReference = 'SELFIE' | 'ID_CARD';
+
+// Tally of the periodic face-match checks made during an interview
+export interface IdentitySummary {
+  references: IdentityReference[]; // Photos a face could be enrolled from
+  checks: number;
+  mismatches: number;
+  meanConfidence: number; // 0-100
+  minConfidence: number;
+}
+
+export type LockoutReview = 'PENDING' | 'UPHELD' | 'REINSTATED' | 'RETAKE_GRANTED';
+export type ReviewDecision = 'UPHOLD' | 'REINSTATE' | 'RETAKE';
+
+export interface InviteCode {
+  id: number;
+  code: string;
+  jobPostId: string;
+  email?: string;      // Only this address may redeem it
+  maxUses: number;     // 1 = single-use
+  useCount: number;
+  expiresAt?: string;
+  createdAt: string;
+  revokedAt?: string;
+  lastRedeemedAt?: string;
+  status: 'ACTIVE' | 'USED' | 'EXPIRED' | 'REVOKED';
+}
+
+// An interview as it runs in the browser, before it is saved as an InterviewSession
+export interface InterviewRun {
+  sessionId: number | null; // Backend session, null when the backend was unreachable at start
+  job?: JobPost;
+  startedAt: string;
+  identity?: IdentitySummary;
 }
 
 export interface AdminConfig {
@@ -126,4 +297,17 @@ export interface VisualMetrics {
   isTalking: boolean;           // Lips moving (possible whispering to someone)
   suspectedPhoneUse: boolean;   // Composite: head down + eyes down
   suspicionLevel: number;       // 0-100 overall suspicion score
-}
\ No newline at end of file
+}
+
+// Nose position within the face: x as a fraction of face width, y of face height
+export interface HeadPose {
+  x: number;
+  y: number;
+}
+
+// Where "facing the screen" sits for one candidate's webcam, recorded before the interview
+export interface HeadPoseCalibration {
+  neutral: HeadPose; // Looking at the centre of the screen
+  envelope: { minX: number; maxX: number; minY: number; maxY: number }; // Range covered looking at the corners
+  capturedAt: string;
+}
@@ -1,11 +1,41 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// MediaPipe's wasm runtime ships in the npm package. Serve it in dev and copy it into the build,
+// so proctoring doesn't depend on a CDN that corporate networks may block. The models aren't on
+// npm and live in public/mediapipe/models.
+const MEDIAPIPE_WASM_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+const MEDIAPIPE_MODELS_DIR = path.resolve(__dirname, 'public/mediapipe/models');
+const MEDIAPIPE_MODELS = ['face_landmarker.task', 'efficientdet_lite0.tflite', 'mobilenet_v3_small.tflite'];
+
+const mediapipeAssets = (externalBaseUrl?: string): Plugin => ({
+  name: 'mediapipe-assets',
+  configureServer(server) {
+    server.middlewares.use('/mediapipe/wasm', (req, res, next) => {
+      const file = path.join(MEDIAPIPE_WASM_DIR, path.basename((req.url || '').split('?')[0]));
+      if (!fs.existsSync(file)) return next();
+      res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+      fs.createReadStream(file).pipe(res);
+    });
+  },
+  buildStart() {
+    if (externalBaseUrl) return;
+    const missing = MEDIAPIPE_MODELS.filter(name => !fs.existsSync(path.join(MEDIAPIPE_MODELS_DIR, name)));
+    if (missing.length) this.warn(`Missing from public/mediapipe/models: ${missing.join(', ')}. Proctoring will not start without face_landmarker.task.`);
+  },
+  generateBundle() {
+    // Loaded from VITE_MEDIAPIPE_BASE_URL instead, so the build doesn't carry a copy
+    if (externalBaseUrl) return;
+    for (const name of fs.readdirSync(MEDIAPIPE_WASM_DIR)) {
+      this.emitFile({ type: 'asset', fileName: `mediapipe/wasm/${name}`, source: fs.readFileSync(path.join(MEDIAPIPE_WASM_DIR, name)) });
+    }
+  },
+});
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
-  const apiKey = env.GEMINI_API_KEY || env.VITE_API_KEY || '';
-
   return {
     server: {
       port: 3000,
@@ -18,12 +48,7 @@ export default defineConfig(({ mode }) => {
         }
       }
     },
-    plugins: [react()],
-    define: {
-      'process.env.VITE_API_KEY': JSON.stringify(apiKey),
-      'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
-      'process.env.API_KEY': JSON.stringify(apiKey)
-    },
+    plugins: [react(), mediapipeAssets(env.VITE_MEDIAPIPE_BASE_URL)],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, './src'),